@@ -1,11 +1,13 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import {
-  CallToolResult,
   ReadResourceResult,
   GetPromptResult,
   Root,
   CallToolResultSchema,
+  CompleteRequest,
+  LoggingLevel,
 } from "@modelcontextprotocol/sdk/types.js";
-import { McpHostError, ErrorCodes } from "./errors.js";
+import { McpHostError, SchemaValidationError, ErrorCodes } from "./errors.js";
 import {
   McpHostConfig,
   ServerConfig,
@@ -15,14 +17,41 @@ import {
   AggregatedPrompt,
   McpRequestOptions,
   ServerCapabilities,
+  ServerStatus,
+  SetRootsOptions,
+  RoutedRequestOptions,
+  RoutedResult,
+  CompletionSuggestions,
+  StructuredCallToolResult,
+  RequestQueueStatus,
+  RateLimit,
 } from "./types.js";
 import { McpClientHostCore } from "./core.js";
-import { ServerSuggestion } from "./uri-utils.js";
+import { ServerSuggestion, ResourceTemplateMatch } from "./uri-utils.js";
 import {
   resolveResourceServer,
   resolveToolServer,
   resolvePromptServer,
+  matchResourceTemplates,
 } from "./uri-utils.js";
+import {
+  JsonSchema,
+  SchemaValidationIssue,
+  validateJsonSchema,
+  formatValidationIssues,
+} from "./json-schema.js";
+import {
+  RateLimitBucket,
+  TokenBucket,
+  isValidRateLimit,
+  sleep,
+} from "./rate-limit.js";
+import {
+  LlmProvider,
+  ProviderToolSet,
+  ConvertToolsOptions,
+  convertTools,
+} from "./providers.js";
 
 /**
  * Public API for the MCP Client Host.
@@ -142,9 +171,64 @@ export class McpClientHost extends McpClientHostCore {
     return Array.from(this.aggregatedPrompts.values());
   }
 
+  /**
+   * Get all tools from connected servers in an LLM provider's function-calling
+   * format, ready to pass to the provider's API.
+   *
+   * Tool names are derived from each tool's `qualifiedName` and made legal for
+   * the provider (allowed characters, at most 64 characters, unique).
+   * `toolMap` maps every name back to the server and original tool name.
+   *
+   * With `options.strict`, input schemas are rewritten for the provider's
+   * strict mode (see `normalizeSchema`); Gemini schemas are always reduced to
+   * its OpenAPI subset. Lossy conversions are listed in `schemaIssues` and
+   * logged as warnings.
+   *
+   * @param provider - The provider format: "openai", "anthropic" or "gemini".
+   * @param options - Conversion options.
+   *
+   * @returns The converted tools and the reverse map of their names.
+   *
+   * @example
+   * ```typescript
+   * const { tools, toolMap } = host.getToolsAs('openai');
+   * const response = await openai.chat.completions.create({ model, messages, tools });
+   *
+   * for (const call of response.choices[0].message.tool_calls ?? []) {
+   *   const { serverId, toolName } = toolMap[call.function.name];
+   *   const result = await host.callTool(serverId, {
+   *     name: toolName,
+   *     arguments: JSON.parse(call.function.arguments),
+   *   });
+   * }
+   * ```
+   */
+  getToolsAs<P extends LlmProvider>(
+    provider: P,
+    options: ConvertToolsOptions = {}
+  ): ProviderToolSet<P> {
+    const toolSet = convertTools(this.getTools(), provider, options);
+    for (const [name, issues] of Object.entries(toolSet.schemaIssues)) {
+      this.log(
+        "warn",
+        `Schema of tool ${
+          toolSet.toolMap[name].qualifiedName
+        } lost constraints in ${provider} format: ${formatValidationIssues(
+          issues
+        )}`
+      );
+    }
+    return toolSet;
+  }
+
   /**
    * Call a tool on a specific server.
    *
+   * When the tool declares an `outputSchema`, the result's `structuredContent`
+   * is validated against it, as configured by `validation.structuredContent`.
+   * Read it with `getStructuredContent<T>(result)` to get a typed value that
+   * is guaranteed to match.
+   *
    * @param serverId - The unique identifier of the server hosting the tool.
    * @param params - The tool request parameters, including the tool name and arguments.
    * @param options - Optional request configuration like progress callbacks or timeout.
@@ -154,6 +238,11 @@ export class McpClientHost extends McpClientHostCore {
    * @throws {McpError} If the server returns an error or if the tool execution fails.
    * @throws {McpHostError} With code SERVER_NOT_FOUND if the specified server is not connected.
    * @throws {McpHostError} With code TOOL_CALL_FAILED for other execution errors.
+   * @throws {McpHostError} With code RATE_LIMITED if a configured rate limit is reached and its behavior is "fail".
+   * @throws {SchemaValidationError} With code INVALID_TOOL_ARGUMENTS if `validation.toolArguments`
+   * is enabled and the arguments do not match the tool's `inputSchema`.
+   * @throws {SchemaValidationError} With code INVALID_STRUCTURED_CONTENT if `validation.structuredContent`
+   * is "raise" and the result does not match the tool's `outputSchema`.
    *
    * @example
    * ```typescript
@@ -172,17 +261,106 @@ export class McpClientHost extends McpClientHostCore {
    * }
    * ```
    */
-  async callTool(
+  async callTool<T = Record<string, unknown>>(
     serverId: string,
     params: any,
     options?: McpRequestOptions
-  ): Promise<CallToolResult> {
-    const client = this.getClientOrThrow(serverId);
-    return client.callTool(
-      params,
-      CallToolResultSchema,
+  ): Promise<StructuredCallToolResult<T>> {
+    this.getClientOrThrow(serverId);
+    if (this.config.validation?.toolArguments) {
+      this.assertValidToolArguments(serverId, params?.name, params?.arguments);
+    }
+    await this.acquireRateLimit(serverId, "tools/call", params?.name, options);
+    const result = (await this.sendQueued(
+      serverId,
+      "tools/call",
+      options,
+      (client) => client.callTool(params, CallToolResultSchema, options)
+    )) as StructuredCallToolResult<T>;
+    this.checkStructuredContent(serverId, params?.name, result);
+    return result;
+  }
+
+  /**
+   * Call a tool by its qualified name, as reported in `AggregatedTool.qualifiedName`.
+   * The call is routed to the server providing the tool, using its original name.
+   *
+   * @param qualifiedName - The qualified name of the tool (e.g., `filesystem__readFile`).
+   * @param args - Optional arguments for the tool.
+   * @param options - Optional request configuration like progress callbacks or timeout.
+   *
+   * @returns A promise that resolves to the tool execution result.
+   *
+   * @throws {McpHostError} With code TOOL_NOT_FOUND if no aggregated tool has this qualified name.
+   * @throws {McpError} If the server returns an error or if the tool execution fails.
+   *
+   * @example
+   * ```typescript
+   * // Tool names handed to an LLM are the qualified names
+   * const tools = host.getTools().map(tool => ({ ...tool, name: tool.qualifiedName }));
+   *
+   * // Route the LLM's tool call back to the right server
+   * const result = await host.callToolByQualifiedName(
+   *   toolCall.name,
+   *   toolCall.arguments
+   * );
+   * ```
+   */
+  async callToolByQualifiedName<T = Record<string, unknown>>(
+    qualifiedName: string,
+    args?: Record<string, unknown>,
+    options?: McpRequestOptions
+  ): Promise<StructuredCallToolResult<T>> {
+    const tool = Array.from(this.aggregatedTools.values()).find(
+      (candidate) => candidate.qualifiedName === qualifiedName
+    );
+    if (!tool) {
+      throw new McpHostError(
+        `Tool "${qualifiedName}" not found`,
+        ErrorCodes.TOOL_NOT_FOUND
+      );
+    }
+    return this.callTool<T>(
+      tool.serverId,
+      { name: tool.name, arguments: args },
       options
-    ) as Promise<CallToolResult>;
+    );
+  }
+
+  /**
+   * Validate arguments against the `inputSchema` of an aggregated tool,
+   * without calling it. Calls are validated the same way before being sent
+   * when `validation.toolArguments` is enabled.
+   *
+   * @param serverId - The unique identifier of the server providing the tool.
+   * @param toolName - The name of the tool, as reported by the server.
+   * @param args - The arguments to validate.
+   *
+   * @returns The validation issues, each with the JSON Pointer path of the offending value; empty if valid.
+   *
+   * @throws {McpHostError} With code TOOL_NOT_FOUND if the server does not provide the tool.
+   *
+   * @example
+   * ```typescript
+   * const issues = host.validateToolArguments('search', 'query', { limit: '10' });
+   * // [{ path: '/query', keyword: 'required', message: 'is required' },
+   * //  { path: '/limit', keyword: 'type', message: 'must be integer' }]
+   * ```
+   */
+  validateToolArguments(
+    serverId: string,
+    toolName: string,
+    args?: Record<string, unknown>
+  ): SchemaValidationIssue[] {
+    const tool = this.aggregatedTools.get(`${serverId}/${toolName}`);
+    if (!tool) {
+      throw new McpHostError(
+        `Tool "${toolName}" not found on server ${serverId}`,
+        ErrorCodes.TOOL_NOT_FOUND,
+        { serverId }
+      );
+    }
+    return validateJsonSchema(tool.inputSchema as JsonSchema, args ?? {});
   }
 
   /**
@@ -199,6 +377,7 @@ export class McpClientHost extends McpClientHostCore {
    * @throws {McpError} If the server returns an error or if the resource cannot be read.
    * @throws {McpHostError} With code SERVER_NOT_FOUND if the specified server is not connected.
    * @throws {McpHostError} With code RESOURCE_READ_FAILED for other read errors.
+   * @throws {McpHostError} With code RATE_LIMITED if a configured rate limit is reached and its behavior is "fail".
    *
    * @example
    * ```typescript
@@ -221,8 +400,11 @@ export class McpClientHost extends McpClientHostCore {
     params: any,
     options?: McpRequestOptions
   ): Promise<ReadResourceResult> {
-    const client = this.getClientOrThrow(serverId);
-    return client.readResource(params, options);
+    this.getClientOrThrow(serverId);
+    await this.acquireRateLimit(serverId, "resources/read", undefined, options);
+    return this.sendQueued(serverId, "resources/read", options, (client) =>
+      client.readResource(params, options)
+    );
   }
 
   /**
@@ -237,6 +419,7 @@ export class McpClientHost extends McpClientHostCore {
    * @throws {McpError} If the server returns an error or if the prompt is not found.
    * @throws {McpHostError} With code SERVER_NOT_FOUND if the specified server is not connected.
    * @throws {McpHostError} With code PROMPT_GET_FAILED for other retrieval errors.
+   * @throws {McpHostError} With code RATE_LIMITED if a configured rate limit is reached and its behavior is "fail".
    *
    * @example
    * ```typescript
@@ -260,19 +443,113 @@ export class McpClientHost extends McpClientHostCore {
     params: any,
     options?: McpRequestOptions
   ): Promise<GetPromptResult> {
-    const client = this.getClientOrThrow(serverId);
-    return client.getPrompt(params, options);
+    this.getClientOrThrow(serverId);
+    await this.acquireRateLimit(serverId, "prompts/get", undefined, options);
+    return this.sendQueued(serverId, "prompts/get", options, (client) =>
+      client.getPrompt(params, options)
+    );
+  }
+
+  /**
+   * Ask a server to complete a prompt argument, e.g. for autocompletion as the
+   * user types.
+   *
+   * @param serverId - The unique identifier of the server hosting the prompt.
+   * @param promptName - The name of the prompt.
+   * @param argName - The name of the argument being completed.
+   * @param partial - The value typed so far.
+   * @param options - Optional request configuration like timeout.
+   *
+   * @returns A promise that resolves to the normalized suggestions.
+   *
+   * @throws {McpHostError} With code SERVER_NOT_FOUND if the specified server is not connected.
+   * @throws {McpHostError} With code COMPLETIONS_NOT_SUPPORTED if the server does not declare the `completions` capability.
+   * @throws {McpError} If the server returns an error.
+   *
+   * @example
+   * ```typescript
+   * const { values, hasMore } = await host.completePromptArgument(
+   *   'codeServer',
+   *   'review',
+   *   'language',
+   *   'ty'
+   * );
+   * console.log(values); // e.g. ['typescript']
+   * ```
+   */
+  async completePromptArgument(
+    serverId: string,
+    promptName: string,
+    argName: string,
+    partial: string,
+    options?: McpRequestOptions
+  ): Promise<CompletionSuggestions> {
+    return this.requestCompletion(
+      serverId,
+      { type: "ref/prompt", name: promptName },
+      argName,
+      partial,
+      options
+    );
+  }
+
+  /**
+   * Ask a server to complete a variable of one of its resource templates.
+   *
+   * @param serverId - The unique identifier of the server hosting the template.
+   * @param uriTemplate - The URI template, as reported in `getResourceTemplates()`.
+   * @param argName - The name of the template variable being completed.
+   * @param partial - The value typed so far.
+   * @param options - Optional request configuration like timeout.
+   *
+   * @returns A promise that resolves to the normalized suggestions.
+   *
+   * @throws {McpHostError} With code SERVER_NOT_FOUND if the specified server is not connected.
+   * @throws {McpHostError} With code COMPLETIONS_NOT_SUPPORTED if the server does not declare the `completions` capability.
+   * @throws {McpError} If the server returns an error.
+   *
+   * @example
+   * ```typescript
+   * const { values } = await host.completeResourceTemplateArgument(
+   *   'github',
+   *   'repo://{owner}/{repo}',
+   *   'owner',
+   *   'lef'
+   * );
+   * ```
+   */
+  async completeResourceTemplateArgument(
+    serverId: string,
+    uriTemplate: string,
+    argName: string,
+    partial: string,
+    options?: McpRequestOptions
+  ): Promise<CompletionSuggestions> {
+    return this.requestCompletion(
+      serverId,
+      { type: "ref/resource", uri: uriTemplate },
+      argName,
+      partial,
+      options
+    );
   }
 
   /**
    * Set the filesystem roots for all connected servers that support them.
    * Roots define the boundaries where servers can operate within the filesystem.
    *
+   * By default the host-wide roots are replaced, affecting every server that has
+   * no scoped roots. Pass `serverIds` to scope the roots to specific servers
+   * instead; only those servers are notified and their `roots/list` answers
+   * change. Scoped roots can also be set per server via `ServerConfig.roots`.
+   *
    * @param roots - An array of Root objects, each containing a URI and name.
+   * @param options - Optional settings, such as the servers to scope the roots to.
    *
    * @returns A promise that resolves when all roots have been set.
    *
    * @throws {McpHostError} With code ROOTS_UPDATE_FAILED if setting roots fails.
+   * @throws {McpHostError} With code SERVER_NOT_FOUND if a scoped server ID is not configured.
    * @throws {AggregateError} Containing multiple McpHostError instances if multiple servers fail.
    *
    * @example
@@ -283,6 +560,12 @@ export class McpClientHost extends McpClientHostCore {
    *     { uri: 'file:///projects/docs', name: 'Documentation' }
    *   ]);
    *   console.log('Roots set successfully');
+   *
+   *   // Only the filesystem server may see the scratch directory
+   *   await host.setRoots(
+   *     [{ uri: 'file:///tmp/scratch', name: 'Scratch' }],
+   *     { serverIds: ['filesystem'] }
+   *   );
    * } catch (error) {
    *   if (error instanceof AggregateError) {
    *     console.error(`Multiple errors (${error.errors.length}):`);
@@ -295,7 +578,7 @@ export class McpClientHost extends McpClientHostCore {
    * }
    * ```
    */
-  async setRoots(roots: Root[]): Promise<void> {
+  async setRoots(roots: Root[], options?: SetRootsOptions): Promise<void> {
     if (!Array.isArray(roots)) {
       throw new McpHostError(
         "Roots must be an array",
@@ -303,13 +586,39 @@ export class McpClientHost extends McpClientHostCore {
       );
     }
 
-    this.currentRoots = roots;
+    let targetIds: string[];
+    if (options?.serverIds) {
+      const unknownId = options.serverIds.find(
+        (serverId) => !this.serverConfigs.has(serverId)
+      );
+      if (unknownId !== undefined) {
+        throw new McpHostError(
+          "Server not found",
+          ErrorCodes.SERVER_NOT_FOUND,
+          { serverId: unknownId }
+        );
+      }
+      options.serverIds.forEach((serverId) =>
+        this.serverRoots.set(serverId, [...roots])
+      );
+      targetIds = options.serverIds;
+    } else {
+      this.currentRoots = roots;
+      // Servers with scoped roots are unaffected by the host-wide roots
+      targetIds = Array.from(this.clients.keys()).filter(
+        (serverId) => !this.serverRoots.has(serverId)
+      );
+    }
+
     const errors: McpHostError[] = [];
 
     await Promise.allSettled(
-      Array.from(this.clients.entries()).map(async ([serverId, client]) => {
-        const serverCaps = client.getServerCapabilities() as ServerCapabilities;
-        if (serverCaps?.roots?.listChanged) {
+      targetIds.map(async (serverId) => {
+        const client = this.clients.get(serverId);
+        const serverCaps = client?.getServerCapabilities() as
+          | ServerCapabilities
+          | undefined;
+        if (client && serverCaps?.roots?.listChanged) {
           try {
             await client.sendRootsListChanged();
             this.log(
@@ -344,19 +653,108 @@ export class McpClientHost extends McpClientHostCore {
    * Lists the roots currently configured for the host. Servers supporting roots
    * will use this list.
    *
-   * @returns An array of Root objects currently set for the host.
+   * @param serverId - Optional server ID; when given, returns the roots that
+   * server effectively sees (its scoped roots, or the host-wide roots).
+   *
+   * @returns An array of Root objects currently set for the host or server.
    *
    * @example
    * ```typescript
    * const currentRoots = host.getCurrentRoots();
    * console.log('Current roots:', currentRoots);
+   *
+   * const filesystemRoots = host.getCurrentRoots('filesystem');
    * ```
    */
-  getCurrentRoots(): Root[] {
+  getCurrentRoots(serverId?: string): Root[] {
     // Return a copy to prevent external modification
+    if (serverId !== undefined) {
+      return this.getEffectiveRoots(serverId);
+    }
     return [...this.currentRoots];
   }
 
+  /**
+   * Set the minimum level of the log messages a server sends, using
+   * `logging/setLevel`. The level is remembered and requested again whenever
+   * the server reconnects; it overrides `ServerConfig.logLevel`.
+   *
+   * Pass `"all"` to set the level of every configured server. Servers that do
+   * not declare the `logging` capability are then skipped.
+   *
+   * @param serverId - The ID of the server, or `"all"`.
+   * @param level - The minimum level, e.g. `"debug"`, `"info"` or `"error"`.
+   *
+   * @returns A promise that resolves when connected servers have acknowledged the level.
+   *
+   * @throws {McpHostError} With code SERVER_NOT_FOUND if the server ID is not configured.
+   * @throws {McpHostError} With code LOGGING_NOT_SUPPORTED if the connected server does not declare the `logging` capability.
+   * @throws {McpHostError} With code LOG_LEVEL_UPDATE_FAILED if the server rejects the request.
+   * @throws {AggregateError} Containing McpHostError instances if servers fail with `"all"`.
+   *
+   * @example
+   * ```typescript
+   * // Quiet every server, but debug the filesystem server
+   * await host.setServerLogLevel('all', 'warning');
+   * await host.setServerLogLevel('filesystem', 'debug');
+   *
+   * host.on('serverLog', ({ serverId, level, logger, data }) => {
+   *   myLogger.log(level, { serverId, logger, data });
+   * });
+   * ```
+   */
+  async setServerLogLevel(
+    serverId: string | "all",
+    level: LoggingLevel
+  ): Promise<void> {
+    if (serverId !== "all") {
+      if (!this.serverConfigs.has(serverId)) {
+        throw new McpHostError(
+          "Server not found",
+          ErrorCodes.SERVER_NOT_FOUND,
+          { serverId }
+        );
+      }
+      const client = this.clients.get(serverId);
+      if (client && !client.getServerCapabilities()?.logging) {
+        throw new McpHostError(
+          `Server ${serverId} does not support logging`,
+          ErrorCodes.LOGGING_NOT_SUPPORTED,
+          { serverId }
+        );
+      }
+      this.serverLogLevels.set(serverId, level);
+      if (client) {
+        await this.sendLogLevel(serverId, client, level);
+      }
+      return;
+    }
+
+    this.serverConfigs.forEach((_, id) => this.serverLogLevels.set(id, level));
+    const errors: McpHostError[] = [];
+
+    await Promise.allSettled(
+      Array.from(this.clients.entries())
+        .filter(([, client]) => client.getServerCapabilities()?.logging)
+        .map(async ([id, client]) => {
+          try {
+            await this.sendLogLevel(id, client, level);
+          } catch (e) {
+            const error = e as McpHostError;
+            errors.push(error);
+            this.log("error", error.message);
+          }
+        })
+    );
+
+    if (errors.length > 0) {
+      throw new AggregateError(
+        errors,
+        "Failed to set the log level on some servers"
+      );
+    }
+  }
+
   /**
    * Gets the Client instance for a specific server ID.
    * Useful for accessing lower-level client methods if needed.
@@ -396,6 +794,77 @@ export class McpClientHost extends McpClientHostCore {
     return this.serverConfigs.get(serverId);
   }
 
+  /**
+   * Gets the connection status of a configured server.
+   *
+   * @param serverId - The unique identifier of the server.
+   *
+   * @returns A snapshot of the server's status, or undefined if the server is not configured.
+   *
+   * @example
+   * ```typescript
+   * const status = host.getServerStatus('filesystem');
+   * if (status?.state === 'failed') {
+   *   console.error('Filesystem server failed:', status.lastError?.message);
+   * }
+   * ```
+   */
+  getServerStatus(serverId: string): ServerStatus | undefined {
+    const status = this.serverStatuses.get(serverId);
+    return status ? { ...status } : undefined;
+  }
+
+  /**
+   * Gets the connection status of every configured server.
+   *
+   * @returns An array of server status snapshots.
+   *
+   * @example
+   * ```typescript
+   * for (const status of host.getAllServerStatuses()) {
+   *   console.log(`${status.serverId}: ${status.state}`);
+   * }
+   * ```
+   */
+  getAllServerStatuses(): ServerStatus[] {
+    return Array.from(this.serverStatuses.values()).map((status) => ({
+      ...status,
+    }));
+  }
+
+  /**
+   * Gets the state of a server's request queue, which holds `callTool`,
+   * `readResource` and `getPrompt` requests while `maxConcurrentRequests`
+   * requests are in flight.
+   *
+   * @param serverId - The unique identifier of the server.
+   *
+   * @returns A snapshot of the queue, or undefined if the server is not configured.
+   *
+   * @example
+   * ```typescript
+   * const queue = host.getRequestQueueStatus('filesystem');
+   * if (queue && queue.oldestWaitMs > 5000) {
+   *   console.warn(`${queue.queued} requests waiting for filesystem`);
+   * }
+   * ```
+   */
+  getRequestQueueStatus(serverId: string): RequestQueueStatus | undefined {
+    const queue = this.requestQueues.get(serverId);
+    if (!queue) {
+      return undefined;
+    }
+    return {
+      serverId,
+      active: queue.active,
+      queued: queue.queued,
+      maxConcurrentRequests: Number.isFinite(queue.limit)
+        ? queue.limit
+        : undefined,
+      oldestWaitMs: queue.oldestWaitMs,
+    };
+  }
+
   /**
    * Gets a map of all currently connected server IDs to their Client instances.
    *
@@ -438,6 +907,29 @@ export class McpClientHost extends McpClientHostCore {
     return resolveResourceServer(uri, resources, templates);
   }
 
+  /**
+   * Find the resource templates that match a URI, with the variables each binds.
+   * Templates are matched following RFC 6570 and sorted most specific first.
+   *
+   * @param uri - The URI to match.
+   * @returns An array of matches, each with the server ID, template, and bound variables.
+   *
+   * @example
+   * ```typescript
+   * const [best] = host.matchResourceTemplate('repo://acme/app/issues?state=open');
+   * if (best) {
+   *   console.log(`${best.template.uriTemplate} on ${best.serverId}`, best.variables);
+   *   // { owner: 'acme', repo: 'app', state: 'open' }
+   * }
+   * ```
+   */
+  matchResourceTemplate(uri: string): ResourceTemplateMatch[] {
+    return matchResourceTemplates(
+      uri,
+      Array.from(this.aggregatedResourceTemplates.values())
+    );
+  }
+
   /**
    * Suggest servers that can handle a specific tool name.
    *
@@ -483,4 +975,447 @@ export class McpClientHost extends McpClientHostCore {
     ) as AggregatedPrompt[];
     return resolvePromptServer(promptName, prompts);
   }
+
+  /**
+   * Call a tool without naming its server. The server is picked from
+   * `suggestServerForTool`, applying the ambiguity policy when several
+   * servers provide a tool with this name.
+   *
+   * @param toolName - The name of the tool, as reported by the server.
+   * @param args - Optional arguments for the tool.
+   * @param options - Optional request and routing configuration. Routing
+   * options override `McpHostConfig.routing`.
+   *
+   * @returns A promise that resolves to the result and the ID of the server that handled it.
+   *
+   * @throws {McpHostError} With code ROUTE_NOT_FOUND if no connected server provides the tool.
+   * @throws {McpHostError} With code AMBIGUOUS_ROUTE if several servers match and the policy is "error".
+   * @throws {McpError} If the server returns an error or if the tool execution fails.
+   *
+   * @example
+   * ```typescript
+   * const { serverId, result } = await host.call(
+   *   'search',
+   *   { query: 'mcp' },
+   *   { ambiguity: 'prefer-list', preferredServers: ['docs', 'web'] }
+   * );
+   * console.log(`Handled by ${serverId}:`, result.content);
+   * ```
+   */
+  async call<T = Record<string, unknown>>(
+    toolName: string,
+    args?: Record<string, unknown>,
+    options?: RoutedRequestOptions
+  ): Promise<RoutedResult<StructuredCallToolResult<T>>> {
+    const serverId = this.routeRequest(
+      `tool "${toolName}"`,
+      this.suggestServerForTool(toolName),
+      options
+    );
+    const result = await this.callTool<T>(
+      serverId,
+      { name: toolName, arguments: args },
+      options
+    );
+    return { serverId, result };
+  }
+
+  /**
+   * Read a resource without naming its server. The server is picked from
+   * `suggestServerForUri`: exact resource matches win over template matches,
+   * which win over servers merely handling the URI scheme.
+   *
+   * @param uri - The URI of the resource to read.
+   * @param options - Optional request and routing configuration. Routing
+   * options override `McpHostConfig.routing`.
+   *
+   * @returns A promise that resolves to the result and the ID of the server that handled it.
+   *
+   * @throws {McpHostError} With code ROUTE_NOT_FOUND if no connected server matches the URI.
+   * @throws {McpHostError} With code AMBIGUOUS_ROUTE if several servers match and the policy is "error".
+   * @throws {McpError} If the server returns an error or if the resource cannot be read.
+   *
+   * @example
+   * ```typescript
+   * const { serverId, result } = await host.read('file:///path/to/file.txt');
+   * console.log(`Read from ${serverId}:`, result.contents);
+   * ```
+   */
+  async read(
+    uri: string,
+    options?: RoutedRequestOptions
+  ): Promise<RoutedResult<ReadResourceResult>> {
+    const serverId = this.routeRequest(
+      `resource "${uri}"`,
+      this.suggestServerForUri(uri),
+      options
+    );
+    const result = await this.readResource(serverId, { uri }, options);
+    return { serverId, result };
+  }
+
+  /**
+   * Get a prompt without naming its server. The server is picked from
+   * `suggestServerForPrompt`, applying the ambiguity policy when several
+   * servers provide a prompt with this name.
+   *
+   * @param promptName - The name of the prompt.
+   * @param args - Optional arguments for the prompt.
+   * @param options - Optional request and routing configuration. Routing
+   * options override `McpHostConfig.routing`.
+   *
+   * @returns A promise that resolves to the result and the ID of the server that handled it.
+   *
+   * @throws {McpHostError} With code ROUTE_NOT_FOUND if no connected server provides the prompt.
+   * @throws {McpHostError} With code AMBIGUOUS_ROUTE if several servers match and the policy is "error".
+   * @throws {McpError} If the server returns an error or if the prompt cannot be retrieved.
+   *
+   * @example
+   * ```typescript
+   * const { result } = await host.prompt('summarize', { style: 'brief' });
+   * console.log(result.messages);
+   * ```
+   */
+  async prompt(
+    promptName: string,
+    args?: Record<string, string>,
+    options?: RoutedRequestOptions
+  ): Promise<RoutedResult<GetPromptResult>> {
+    const serverId = this.routeRequest(
+      `prompt "${promptName}"`,
+      this.suggestServerForPrompt(promptName),
+      options
+    );
+    const result = await this.getPrompt(
+      serverId,
+      { name: promptName, arguments: args },
+      options
+    );
+    return { serverId, result };
+  }
+
+  /**
+   * Takes a token from the server's rate limit and, for tool calls, from the
+   * tool's. When either is exhausted, emits `rateLimited` and waits for
+   * both to have a token, or throws RATE_LIMITED if the behavior is "fail".
+   */
+  private async acquireRateLimit(
+    serverId: string,
+    method: string,
+    toolName: string | undefined,
+    options: McpRequestOptions | undefined
+  ): Promise<void> {
+    const buckets = this.getRateLimitBuckets(serverId, toolName);
+    if (buckets.length === 0) {
+      return;
+    }
+
+    for (;;) {
+      let blocking: RateLimitBucket | undefined;
+      let retryAfterMs = 0;
+      for (const candidate of buckets) {
+        const waitMs = candidate.bucket.waitTime();
+        if (waitMs > retryAfterMs) {
+          blocking = candidate;
+          retryAfterMs = waitMs;
+        }
+      }
+      if (!blocking) {
+        buckets.forEach(({ bucket }) => bucket.take());
+        return;
+      }
+
+      const action =
+        options?.rateLimit ??
+        blocking.bucket.limit.onLimit ??
+        this.config.rateLimits?.onLimit ??
+        "wait";
+      const { scope } = blocking;
+      this.emit("rateLimited", {
+        serverId,
+        method,
+        toolName,
+        scope,
+        retryAfterMs,
+        action,
+      });
+      if (action === "fail") {
+        throw new McpHostError(
+          `Rate limit of ${
+            scope === "tool" ? `tool ${toolName}` : "server"
+          } reached, retry in ${retryAfterMs}ms`,
+          ErrorCodes.RATE_LIMITED,
+          { serverId }
+        );
+      }
+      this.log(
+        "debug",
+        `Rate limit of ${scope} reached for ${method} on server ${serverId}, waiting ${retryAfterMs}ms`
+      );
+      await sleep(retryAfterMs, options?.signal);
+    }
+  }
+
+  /**
+   * Returns the buckets of the rate limits configured for the server and,
+   * if given, the tool.
+   */
+  private getRateLimitBuckets(
+    serverId: string,
+    toolName: string | undefined
+  ): RateLimitBucket[] {
+    const { servers, tools } = this.config.rateLimits ?? {};
+    const buckets: RateLimitBucket[] = [];
+
+    const serverLimit = servers?.[serverId];
+    if (isValidRateLimit(serverLimit)) {
+      buckets.push({
+        scope: "server",
+        bucket: this.getRateLimitBucket(serverId, "server", serverLimit),
+      });
+    }
+    if (toolName !== undefined) {
+      const qualifiedName = this.aggregatedTools.get(
+        `${serverId}/${toolName}`
+      )?.qualifiedName;
+      const toolLimit =
+        (qualifiedName !== undefined ? tools?.[qualifiedName] : undefined) ??
+        tools?.[toolName];
+      if (isValidRateLimit(toolLimit)) {
+        buckets.push({
+          scope: "tool",
+          bucket: this.getRateLimitBucket(
+            serverId,
+            `tool:${toolName}`,
+            toolLimit
+          ),
+        });
+      }
+    }
+    return buckets;
+  }
+
+  /**
+   * Returns a server's bucket for a rate limit, creating it on first use.
+   */
+  private getRateLimitBucket(
+    serverId: string,
+    key: string,
+    limit: RateLimit
+  ): TokenBucket {
+    let buckets = this.rateLimitBuckets.get(serverId);
+    if (!buckets) {
+      buckets = new Map();
+      this.rateLimitBuckets.set(serverId, buckets);
+    }
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = new TokenBucket(limit);
+      buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  /**
+   * Sends a request through the server's request queue, once fewer than
+   * `maxConcurrentRequests` requests are in flight. The client is looked up
+   * when the request leaves the queue, as the server may have reconnected.
+   */
+  private sendQueued<T>(
+    serverId: string,
+    method: string,
+    options: McpRequestOptions | undefined,
+    send: (client: Client) => Promise<T>
+  ): Promise<T> {
+    const queue = this.requestQueues.get(serverId);
+    if (!queue) {
+      return send(this.getClientOrThrow(serverId));
+    }
+    return queue.run(() => send(this.getClientOrThrow(serverId)), {
+      priority: options?.priority,
+      signal: options?.signal,
+      onQueued: () => {
+        this.log(
+          "debug",
+          `Queued ${method} for server ${serverId} (${queue.queued} waiting)`
+        );
+        this.emit("requestQueued", {
+          serverId,
+          method,
+          queueDepth: queue.queued,
+          waitMs: 0,
+        });
+      },
+      onDequeued: (waitMs) =>
+        this.emit("requestDequeued", {
+          serverId,
+          method,
+          queueDepth: queue.queued,
+          waitMs,
+        }),
+    });
+  }
+
+  /**
+   * Picks the server for an auto-routed request among the best-ranked
+   * suggestions, applying the ambiguity policy.
+   */
+  private routeRequest(
+    target: string,
+    suggestions: ServerSuggestion[],
+    options?: RoutedRequestOptions
+  ): string {
+    if (suggestions.length === 0) {
+      throw new McpHostError(
+        `No connected server can handle ${target}`,
+        ErrorCodes.ROUTE_NOT_FOUND
+      );
+    }
+
+    const bestConfidence = suggestions[0].confidence;
+    const candidates = Array.from(
+      new Set(
+        suggestions
+          .filter((suggestion) => suggestion.confidence === bestConfidence)
+          .map((suggestion) => suggestion.serverId)
+      )
+    );
+    const ambiguity =
+      options?.ambiguity ?? this.config.routing?.ambiguity ?? "first";
+    const preferredServers =
+      options?.preferredServers ?? this.config.routing?.preferredServers ?? [];
+
+    let serverId = candidates[0];
+    if (candidates.length > 1) {
+      if (ambiguity === "error") {
+        throw new McpHostError(
+          `Ambiguous route for ${target}: servers ${candidates.join(
+            ", "
+          )} all match`,
+          ErrorCodes.AMBIGUOUS_ROUTE
+        );
+      }
+      if (ambiguity === "prefer-list") {
+        serverId =
+          preferredServers.find((preferred) =>
+            candidates.includes(preferred)
+          ) ?? serverId;
+      }
+    }
+
+    this.log("debug", `Routed ${target} to server ${serverId}`);
+    return serverId;
+  }
+
+  /**
+   * Rejects tool arguments that do not match the tool's `inputSchema`.
+   * Tools missing from the aggregated list are left for the server to check.
+   */
+  private assertValidToolArguments(
+    serverId: string,
+    toolName: string,
+    args?: Record<string, unknown>
+  ): void {
+    if (!this.aggregatedTools.has(`${serverId}/${toolName}`)) {
+      this.log(
+        "debug",
+        `Skipping argument validation for unknown tool ${toolName} on server ${serverId}`
+      );
+      return;
+    }
+    const issues = this.validateToolArguments(serverId, toolName, args);
+    if (issues.length > 0) {
+      throw new SchemaValidationError(
+        `Invalid arguments for tool "${toolName}": ${formatValidationIssues(
+          issues
+        )}`,
+        ErrorCodes.INVALID_TOOL_ARGUMENTS,
+        issues,
+        { serverId }
+      );
+    }
+  }
+
+  /**
+   * Validates a tool result's `structuredContent` against the tool's
+   * `outputSchema`, flagging the result or throwing on mismatch.
+   */
+  private checkStructuredContent(
+    serverId: string,
+    toolName: string,
+    result: StructuredCallToolResult<unknown>
+  ): void {
+    const mode = this.config.validation?.structuredContent ?? "flag";
+    const outputSchema = this.aggregatedTools.get(
+      `${serverId}/${toolName}`
+    )?.outputSchema;
+    if (mode === "off" || outputSchema === undefined || result.isError) {
+      return;
+    }
+
+    // Tools declaring an output schema must return structured content
+    const issues =
+      result.structuredContent === undefined
+        ? [
+            {
+              path: "",
+              keyword: "required",
+              message: "structuredContent is missing",
+            },
+          ]
+        : validateJsonSchema(outputSchema, result.structuredContent);
+    if (issues.length > 0 && mode === "raise") {
+      throw new SchemaValidationError(
+        `Structured content of tool "${toolName}" does not match its outputSchema: ${formatValidationIssues(
+          issues
+        )}`,
+        ErrorCodes.INVALID_STRUCTURED_CONTENT,
+        issues,
+        { serverId }
+      );
+    }
+    if (issues.length > 0) {
+      this.log(
+        "warn",
+        `Structured content of tool ${toolName} on server ${serverId} does not match its outputSchema`,
+        issues
+      );
+    }
+    result.structuredContentValidation = { valid: issues.length === 0, issues };
+  }
+
+  /**
+   * Sends a `completion/complete` request after checking the server declares
+   * the `completions` capability, and normalizes the suggestions.
+   */
+  private async requestCompletion(
+    serverId: string,
+    ref: CompleteRequest["params"]["ref"],
+    argName: string,
+    partial: string,
+    options?: McpRequestOptions
+  ): Promise<CompletionSuggestions> {
+    const client = this.getClientOrThrow(serverId);
+    const serverCaps = client.getServerCapabilities() as
+      | ServerCapabilities
+      | undefined;
+    if (!serverCaps?.completions) {
+      throw new McpHostError(
+        `Server ${serverId} does not support completions`,
+        ErrorCodes.COMPLETIONS_NOT_SUPPORTED,
+        { serverId }
+      );
+    }
+
+    const { completion } = await client.complete(
+      { ref, argument: { name: argName, value: partial } },
+      options
+    );
+    const values = Array.from(new Set(completion.values));
+    // Servers may report a total without setting hasMore
+    const hasMore =
+      completion.hasMore ??
+      (completion.total !== undefined && completion.total > values.length);
+    return { values, total: completion.total, hasMore };
+  }
 }
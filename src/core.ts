@@ -8,6 +8,7 @@ import {
 import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
 import { WebSocketClientTransport } from "@modelcontextprotocol/sdk/client/websocket.js";
 import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
 import {
   Tool,
   Resource,
@@ -24,8 +25,14 @@ import {
   LoggingMessageNotificationSchema,
   CreateMessageRequestSchema,
   CreateMessageResult,
+  ListRootsRequestSchema,
+  LoggingLevel,
 } from "@modelcontextprotocol/sdk/types.js";
 import { McpHostError, ErrorCodes } from "./errors.js";
+import { StreamableHttpClientTransport } from "./streamable-http.js";
+import { HttpAutoClientTransport } from "./http-auto.js";
+import { RequestQueue } from "./request-queue.js";
+import { TokenBucket } from "./rate-limit.js";
 import {
   McpHostConfig,
   ServerConfig,
@@ -36,11 +43,63 @@ import {
   AggregatedPrompt,
   ServerCapabilities,
   SimplifiedSamplingHandler,
+  ReconnectPolicy,
+  PaginationOptions,
+  ServerConnectionState,
+  ServerStatus,
+  TransportFactory,
+  CapabilityChanges,
+  CapabilityDiff,
 } from "./types.js";
 
 // Re-export McpHostConfig directly from core.ts so tests can import it from here
 export type { McpHostConfig } from "./types.js";
 
+/** Defaults applied to any unset field of a server's reconnect policy */
+const DEFAULT_RECONNECT_POLICY: Required<ReconnectPolicy> = {
+  maxAttempts: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  jitter: 0.2,
+};
+
+/** Defaults applied to any unset field of the host's pagination limits */
+const DEFAULT_PAGINATION: Required<PaginationOptions> = {
+  maxPages: 100,
+  maxItems: 10000,
+};
+
+/** Aggregated lists a server contributes to, each refreshed on its own */
+type CapabilityList = "tools" | "resources" | "resourceTemplates" | "prompts";
+
+/** Any entry of the aggregated lists */
+type AggregatedEntry =
+  | AggregatedTool
+  | AggregatedResource
+  | AggregatedResourceTemplate
+  | AggregatedPrompt;
+
+/** Human-readable names of the aggregated lists, used in log messages */
+const CAPABILITY_LIST_NAMES: Record<CapabilityList, string> = {
+  tools: "tools",
+  resources: "resources",
+  resourceTemplates: "resource templates",
+  prompts: "prompts",
+};
+
+/** A list refresh in progress; `rerun` asks for one more fetch when done */
+interface ListRefresh {
+  client: Client;
+  rerun: boolean;
+  done: Promise<void>;
+}
+
+/** One page of a paginated list response */
+interface ListPage<T> {
+  items: T[];
+  nextCursor?: string;
+}
+
 /**
  * Core implementation of the MCP Client Host.
  * Handles connections, event management, and aggregation of capabilities.
@@ -54,9 +113,17 @@ export class McpClientHostCore extends EventEmitter<McpHostEvents> {
   protected aggregatedResourceTemplates: Map<
     string,
     AggregatedResourceTemplate
-  > = new Map(); // Key: serverId/templateName
+  > = new Map(); // Key: serverId/uriTemplate
   protected aggregatedPrompts: Map<string, AggregatedPrompt> = new Map(); // Key: serverId/promptName
   protected currentRoots: Root[] = [];
+  /** Roots scoped to a single server, overriding `currentRoots` for it */
+  protected serverRoots: Map<string, Root[]> = new Map();
+  /** Log levels requested from each server, re-sent on every connection */
+  protected serverLogLevels: Map<string, LoggingLevel> = new Map();
+  /** Queues enforcing each server's `maxConcurrentRequests` */
+  protected requestQueues: Map<string, RequestQueue> = new Map();
+  /** Rate limit buckets, keyed by server ID then by "server" or "tool:<name>" */
+  protected rateLimitBuckets: Map<string, Map<string, TokenBucket>> = new Map();
   protected isStarted = false;
   // Store server capabilities
   protected serverCapabilities: Map<string, ServerCapabilities> = new Map();
@@ -64,6 +131,28 @@ export class McpClientHostCore extends EventEmitter<McpHostEvents> {
   /** Storage for the simplified sampling handler if set */
   protected simplifiedSamplingHandler?: SimplifiedSamplingHandler;
 
+  /** Pending reconnection timers, keyed by server ID */
+  protected reconnectTimers: Map<string, ReturnType<typeof setTimeout>> =
+    new Map();
+  /** Connection attempts in progress, aborted when their server is disconnected */
+  protected connectionAttempts: Map<string, AbortController> = new Map();
+  /** Servers being closed on purpose, which must not be reconnected */
+  protected closingServers: Set<string> = new Set();
+  /** Connection state of every configured server, keyed by server ID */
+  protected serverStatuses: Map<string, ServerStatus> = new Map();
+  /** Custom transport factories registered by name */
+  protected transportFactories: Map<string, TransportFactory> = new Map();
+  /**
+   * Tool lists of servers with tools skipped for a name conflict, and the
+   * skipped names. They are rebuilt when other servers' tools change.
+   */
+  protected conflictingTools: Map<
+    string,
+    { tools: Tool[]; skipped: Set<string> }
+  > = new Map();
+  /** In-flight list refreshes, keyed by serverId/list, used to coalesce bursts */
+  protected listRefreshes: Map<string, ListRefresh> = new Map();
+
   constructor(config: McpHostConfig) {
     super();
     this.config = config;
@@ -75,6 +164,17 @@ export class McpClientHostCore extends EventEmitter<McpHostEvents> {
         );
       } else {
         this.serverConfigs.set(serverConf.id, serverConf);
+        this.initServerStatus(serverConf.id);
+        if (serverConf.roots) {
+          this.serverRoots.set(serverConf.id, [...serverConf.roots]);
+        }
+        if (serverConf.logLevel) {
+          this.serverLogLevels.set(serverConf.id, serverConf.logLevel);
+        }
+        this.requestQueues.set(
+          serverConf.id,
+          this.createRequestQueue(serverConf)
+        );
       }
     });
   }
@@ -168,6 +268,30 @@ export class McpClientHostCore extends EventEmitter<McpHostEvents> {
     return this;
   }
 
+  /**
+   * Registers a named factory for custom transports.
+   * Servers configured with `transport: "custom"` and a matching
+   * `transportName` use this factory to create their transport.
+   *
+   * @param name The name servers use to refer to the factory
+   * @param factory Function returning an SDK `Transport` for a server config
+   * @returns This instance, for method chaining
+   *
+   * @example
+   * ```typescript
+   * host.registerTransport("ipc", (serverConfig) =>
+   *   new MyIpcTransport(serverConfig.options?.socketPath as string)
+   * );
+   * ```
+   */
+  registerTransport(name: string, factory: TransportFactory): this {
+    if (this.transportFactories.has(name)) {
+      this.log("warn", `Replacing registered transport "${name}".`);
+    }
+    this.transportFactories.set(name, factory);
+    return this;
+  }
+
   protected log(level: string, message: string, data?: unknown) {
     // Emit event using correct tuple signature
     this.emit("log", level, message, data);
@@ -207,6 +331,10 @@ export class McpClientHostCore extends EventEmitter<McpHostEvents> {
       return;
     }
     this.log("info", "Stopping McpClientHost...");
+    this.cancelAllReconnects();
+    this.connectionAttempts.forEach((attempt) => attempt.abort());
+    this.connectionAttempts.clear();
+    this.clients.forEach((_, serverId) => this.closingServers.add(serverId));
     const disconnectionPromises = Array.from(this.clients.values()).map(
       (client) =>
         client
@@ -215,15 +343,148 @@ export class McpClientHostCore extends EventEmitter<McpHostEvents> {
     );
     await Promise.allSettled(disconnectionPromises);
     this.clients.clear();
+    this.closingServers.clear();
     this.clearAggregatedCapabilities();
     this.isStarted = false;
+    this.serverStatuses.forEach((status, serverId) => {
+      if (status.state !== "stopped") {
+        this.updateServerStatus(serverId, "stopped");
+      }
+    });
     this.log("info", "McpClientHost stopped.");
     this.emit("capabilitiesUpdated"); // Correct: Emit with no arguments
   }
 
+  /**
+   * Adds a new server configuration at runtime.
+   * If the host is already started, the server is connected immediately;
+   * connection failures are reported via the `serverError` event.
+   *
+   * @param serverConf The configuration of the server to add
+   * @throws {McpHostError} With code SERVER_ALREADY_EXISTS if the ID is already configured.
+   */
+  async addServer(serverConf: ServerConfig): Promise<void> {
+    if (this.serverConfigs.has(serverConf.id)) {
+      throw new McpHostError(
+        `Server "${serverConf.id}" is already configured`,
+        ErrorCodes.SERVER_ALREADY_EXISTS,
+        { serverId: serverConf.id }
+      );
+    }
+    this.serverConfigs.set(serverConf.id, serverConf);
+    this.initServerStatus(serverConf.id);
+    if (serverConf.roots) {
+      this.serverRoots.set(serverConf.id, [...serverConf.roots]);
+    }
+    if (serverConf.logLevel) {
+      this.serverLogLevels.set(serverConf.id, serverConf.logLevel);
+    }
+    this.requestQueues.set(serverConf.id, this.createRequestQueue(serverConf));
+    this.log("info", `Added server configuration: ${serverConf.id}`);
+
+    if (this.isStarted) {
+      await this.connectToServer(serverConf);
+    }
+  }
+
+  /**
+   * Disconnects a server and removes its configuration from the host.
+   * Its tools, resources, and prompts are removed from the aggregated lists.
+   *
+   * @param serverId The ID of the server to remove
+   * @throws {McpHostError} With code SERVER_NOT_FOUND if the ID is not configured.
+   */
+  async removeServer(serverId: string): Promise<void> {
+    if (!this.serverConfigs.has(serverId)) {
+      throw new McpHostError("Server not found", ErrorCodes.SERVER_NOT_FOUND, {
+        serverId,
+      });
+    }
+    await this.disconnectServer(serverId);
+    // Servers that were never connected or had failed get a final status too
+    if (this.serverStatuses.get(serverId)?.state !== "stopped") {
+      this.updateServerStatus(serverId, "stopped");
+    }
+    this.serverConfigs.delete(serverId);
+    this.serverStatuses.delete(serverId);
+    this.serverRoots.delete(serverId);
+    this.serverLogLevels.delete(serverId);
+    this.requestQueues.get(serverId)?.clear(
+      new McpHostError("Server was removed", ErrorCodes.SERVER_NOT_FOUND, {
+        serverId,
+      })
+    );
+    this.requestQueues.delete(serverId);
+    this.rateLimitBuckets.delete(serverId);
+    this.log("info", `Removed server configuration: ${serverId}`);
+    this.emit("serverRemoved", serverId);
+  }
+
+  /**
+   * Disconnects and reconnects a single server using its current configuration.
+   * Does nothing beyond the disconnect if the host has not been started.
+   *
+   * @param serverId The ID of the server to restart
+   * @throws {McpHostError} With code SERVER_NOT_FOUND if the ID is not configured.
+   */
+  async restartServer(serverId: string): Promise<void> {
+    const serverConf = this.serverConfigs.get(serverId);
+    if (!serverConf) {
+      throw new McpHostError("Server not found", ErrorCodes.SERVER_NOT_FOUND, {
+        serverId,
+      });
+    }
+    this.log("info", `Restarting server: ${serverId}`);
+    await this.disconnectServer(serverId);
+
+    if (!this.isStarted) {
+      this.log("warn", `Host not started; ${serverId} will connect on start.`);
+      return;
+    }
+    await this.connectToServer(serverConf);
+  }
+
+  /**
+   * Intentionally closes the connection to a single server without
+   * triggering its reconnect policy.
+   */
+  protected async disconnectServer(serverId: string): Promise<void> {
+    this.cancelReconnect(serverId);
+    this.cancelConnectionAttempt(serverId);
+    const client = this.clients.get(serverId);
+    if (!client) {
+      return;
+    }
+
+    this.closingServers.add(serverId);
+    await client
+      .close()
+      .catch((e) =>
+        this.log("error", `Error closing client for ${serverId}`, e)
+      );
+    // Clean up here in case the transport did not report the close
+    if (this.clients.get(serverId) === client) {
+      this.handleServerDisconnection(serverId);
+    }
+    this.closingServers.delete(serverId);
+  }
+
+  /**
+   * Connects to a server and fetches its capabilities. Failures are reported
+   * through the server's status and the `serverError` event. The attempt is
+   * registered in `connectionAttempts` before the first await, so that a
+   * restart, removal or stop can cancel it.
+   */
   private async connectToServer(serverConf: ServerConfig): Promise<void> {
     const serverId = serverConf.id;
+    this.cancelConnectionAttempt(serverId);
+    const attempt = new AbortController();
+    this.connectionAttempts.set(serverId, attempt);
 
+    // Reconnection attempts keep the "reconnecting" state and their own count
+    if (this.serverStatuses.get(serverId)?.state !== "reconnecting") {
+      this.updateServerStatus(serverId, "connecting", { attempts: 1 });
+    }
     this.log("info", `Connecting to: ${serverId} (${serverConf.transport})`);
     let transport: Transport | undefined;
     try {
@@ -262,46 +523,41 @@ export class McpClientHostCore extends EventEmitter<McpHostEvents> {
         case "websocket":
           transport = new WebSocketClientTransport(new URL(serverConf.url));
           break;
-        case "streamable-http": {
-          try {
-            // Streamable HTTP transport is not yet available in the official SDK
-            // This is a future-proofing code path that will work once it's released
-            throw new Error(
-              "StreamableHttpClientTransport is not yet available in the current SDK version. " +
-                "Please check for updates to @modelcontextprotocol/sdk package."
-            );
-
-            // Keep the dynamic import code for future use once the module becomes available
-            /*
-            // Dynamically import the transport module
-            const module = await import(
-              "@modelcontextprotocol/sdk/client/streamable-http.js"
-            ).catch(() => {
-              // Module not available, will throw error below
-              return null;
-            });
-
-            if (!module || !module.StreamableHttpClientTransport) {
-              throw new Error(
-                "StreamableHttpClientTransport module not available"
-              );
-            }
-
-            const { StreamableHttpClientTransport } = module;
-            const config = serverConf as StreamableHttpServerConfig;
-            transport = new StreamableHttpClientTransport(new URL(config.url), {
-              headers: config.headers,
-            });
-            */
-          } catch (error) {
+        case "streamable-http":
+          transport = new StreamableHttpClientTransport(
+            new URL(serverConf.url),
+            { headers: serverConf.headers }
+          );
+          break;
+        case "http-auto":
+          transport = new HttpAutoClientTransport(new URL(serverConf.url), {
+            headers: serverConf.headers,
+            sseOptions: serverConf.sseOptions,
+          });
+          break;
+        case "custom": {
+          const factory =
+            serverConf.createTransport ??
+            (serverConf.transportName
+              ? this.transportFactories.get(serverConf.transportName)
+              : undefined);
+          if (!factory) {
             throw new McpHostError(
-              `Failed to load StreamableHttpClientTransport module: ${
-                error instanceof Error ? error.message : String(error)
-              }`,
+              serverConf.transportName
+                ? `Custom transport "${serverConf.transportName}" is not registered`
+                : "Custom transport requires createTransport or transportName",
               ErrorCodes.INVALID_TRANSPORT,
               { serverId }
             );
           }
+          transport = await factory(serverConf);
+          break;
+        }
+        case "in-process": {
+          const [clientTransport, serverTransport] =
+            InMemoryTransport.createLinkedPair();
+          await serverConf.server.connect(serverTransport);
+          transport = clientTransport;
           break;
         }
         default: {
@@ -322,6 +578,7 @@ export class McpClientHostCore extends EventEmitter<McpHostEvents> {
           { serverId }
         );
       }
+      attempt.signal.throwIfAborted();
 
       const clientOptions = {
         ...(serverConf.clientOptions || {}),
@@ -331,18 +588,21 @@ export class McpClientHostCore extends EventEmitter<McpHostEvents> {
 
       const client = new Client(this.config.hostInfo, clientOptions);
 
-      client.onclose = (data?: { code?: number; reason?: string }) => {
-        const error =
-          data?.code !== undefined || data?.reason !== undefined
-            ? new Error(
-                `Connection closed with code ${data?.code ?? "unknown"}${
-                  data?.reason ? `: ${data.reason}` : ""
-                }`
-              )
-            : undefined;
-        this.handleServerDisconnection(serverId, error);
+      // The SDK closes without a reason, so the last error explains the drop
+      let lastError: Error | undefined;
+      client.onclose = () => {
+        // Ignore close events from cancelled attempts and late ones from a
+        // client that has since been replaced
+        if (
+          attempt.signal.aborted ||
+          (this.clients.has(serverId) && this.clients.get(serverId) !== client)
+        ) {
+          return;
+        }
+        this.handleServerDisconnection(serverId, lastError);
       };
       client.onerror = (error) => {
+        lastError = error;
         this.log("error", `Error from server ${serverId}`, error);
         this.emit("serverError", serverId, error);
       };
@@ -371,20 +631,28 @@ export class McpClientHostCore extends EventEmitter<McpHostEvents> {
       }
       // --- End Sampling Handling ---
 
+      // --- Handle Roots Request ---
+      if (this.config.hostCapabilities?.roots) {
+        client.setRequestHandler(ListRootsRequestSchema, async () => {
+          this.log("debug", `Server ${serverId} requested roots list`);
+          return { roots: this.getEffectiveRoots(serverId) };
+        });
+      }
+      // --- End Roots Request Handling ---
+
       // --- Handle Capability Update Notifications ---
-      const capabilityUpdateHandler = () =>
-        this.updateServerCapabilities(serverId, client);
-      client.setNotificationHandler(
-        ToolListChangedNotificationSchema,
-        capabilityUpdateHandler
+      // Each notification refreshes only the list it refers to
+      client.setNotificationHandler(ToolListChangedNotificationSchema, () =>
+        this.refreshCapabilityLists(serverId, client, ["tools"])
       );
-      client.setNotificationHandler(
-        ResourceListChangedNotificationSchema,
-        capabilityUpdateHandler
+      client.setNotificationHandler(ResourceListChangedNotificationSchema, () =>
+        this.refreshCapabilityLists(serverId, client, [
+          "resources",
+          "resourceTemplates",
+        ])
       );
-      client.setNotificationHandler(
-        PromptListChangedNotificationSchema,
-        capabilityUpdateHandler
+      client.setNotificationHandler(PromptListChangedNotificationSchema, () =>
+        this.refreshCapabilityLists(serverId, client, ["prompts"])
       );
 
       // Handle resource update notifications
@@ -402,6 +670,8 @@ export class McpClientHostCore extends EventEmitter<McpHostEvents> {
       client.setNotificationHandler(
         LoggingMessageNotificationSchema,
         (notification) => {
+          const { level, logger, data } = notification.params;
+          this.emit("serverLog", { serverId, level, logger, data });
           this.log(
             `server-${notification.params.level}`,
             `[${serverId}${
@@ -413,12 +683,14 @@ export class McpClientHostCore extends EventEmitter<McpHostEvents> {
       );
       // --- End Logging ---
 
-      await client.connect(transport);
+      await client.connect(transport, { signal: attempt.signal });
+      attempt.signal.throwIfAborted();
 
       // --- Handle Roots ---
       const serverCaps = client.getServerCapabilities();
+      const roots = this.getEffectiveRoots(serverId);
       if (
-        this.currentRoots.length > 0 &&
+        roots.length > 0 &&
         serverCaps?.roots &&
         typeof serverCaps.roots === "object" &&
         (serverCaps.roots as Record<string, unknown>)["listChanged"] === true
@@ -436,7 +708,7 @@ export class McpClientHostCore extends EventEmitter<McpHostEvents> {
             e
           );
         }
-      } else if (this.currentRoots.length > 0 && serverCaps?.roots) {
+      } else if (roots.length > 0 && serverCaps?.roots) {
         this.log(
           "debug",
           `Server ${serverId} supports roots, but not list change notifications.`
@@ -444,12 +716,52 @@ export class McpClientHostCore extends EventEmitter<McpHostEvents> {
       }
       // --- End Roots Handling ---
 
+      // --- Handle Log Level ---
+      const logLevel = this.serverLogLevels.get(serverId);
+      if (logLevel && serverCaps?.logging) {
+        try {
+          await this.sendLogLevel(serverId, client, logLevel);
+        } catch (e: any) {
+          this.log("warn", e.message, e);
+        }
+      } else if (logLevel) {
+        this.log(
+          "debug",
+          `Server ${serverId} does not support logging; log level not set.`
+        );
+      }
+      // --- End Log Level Handling ---
+
+      let negotiatedTransport: string = serverConf.transport;
+      if (transport instanceof HttpAutoClientTransport) {
+        negotiatedTransport = transport.negotiatedTransport ?? "unknown";
+        this.log(
+          "info",
+          `Negotiated '${negotiatedTransport}' transport for ${serverId}`
+        );
+      }
+
+      // Sending roots and the log level may have taken a while
+      attempt.signal.throwIfAborted();
+      this.connectionAttempts.delete(serverId);
       this.clients.set(serverId, client);
+      this.updateServerStatus(serverId, "connected", {
+        transport: negotiatedTransport,
+      });
       this.log("info", `Successfully connected to server: ${serverId}`);
       this.emit("serverConnected", serverId, client);
 
       await this.updateServerCapabilities(serverId, client);
     } catch (error: any) {
+      if (attempt.signal.aborted) {
+        this.log("info", `Cancelled connection attempt to ${serverId}`);
+        await transport
+          ?.close()
+          .catch((e) =>
+            this.log("error", `Error closing transport for ${serverId}`, e)
+          );
+        return;
+      }
       this.log(
         "error",
         `Failed to connect to server ${serverId}: ${error.message}`,
@@ -457,19 +769,28 @@ export class McpClientHostCore extends EventEmitter<McpHostEvents> {
       );
       const errorInstance =
         error instanceof Error ? error : new Error(String(error));
+      let reportedError: Error = errorInstance;
       if (errorInstance instanceof McpHostError && !errorInstance.serverId) {
         (errorInstance as any).serverId = serverId;
       } else if (!(errorInstance instanceof McpHostError)) {
-        const wrappedError = new McpHostError(
+        reportedError = new McpHostError(
           `Connection failed for ${serverId}: ${errorInstance.message}`,
           ErrorCodes.CONNECTION_FAILED,
           { serverId: serverId, cause: errorInstance }
         );
-        this.emit("serverError", serverId, wrappedError);
+        this.emit("serverError", serverId, reportedError);
       } else {
         this.emit("serverError", serverId, errorInstance);
       }
 
+      // A failed reconnection attempt stays "reconnecting" until the policy gives up
+      const currentState = this.serverStatuses.get(serverId)?.state;
+      this.updateServerStatus(
+        serverId,
+        currentState === "reconnecting" ? "reconnecting" : "failed",
+        { lastError: reportedError, lastErrorAt: new Date() }
+      );
+
       if (transport && !this.clients.has(serverId)) {
         await transport
           .close()
@@ -477,9 +798,19 @@ export class McpClientHostCore extends EventEmitter<McpHostEvents> {
             this.log("error", `Error closing transport for ${serverId}`, e)
           );
       }
+    } finally {
+      if (this.connectionAttempts.get(serverId) === attempt) {
+        this.connectionAttempts.delete(serverId);
+      }
     }
   }
 
+  /** Cancels the connection attempt in progress for a server, if any */
+  protected cancelConnectionAttempt(serverId: string): void {
+    this.connectionAttempts.get(serverId)?.abort();
+    this.connectionAttempts.delete(serverId);
+  }
+
   protected handleServerDisconnection(
     serverId: string,
     error?: Error | { code?: number; reason?: string }
@@ -510,7 +841,153 @@ export class McpClientHostCore extends EventEmitter<McpHostEvents> {
       this.removeServerCapabilities(serverId);
       this.emit("serverDisconnected", serverId, errorObj);
       this.emit("capabilitiesUpdated");
+
+      if (this.closingServers.has(serverId)) {
+        this.closingServers.delete(serverId);
+        this.updateServerStatus(serverId, "stopped");
+      } else if (
+        this.isStarted &&
+        this.serverConfigs.get(serverId)?.reconnect
+      ) {
+        this.scheduleReconnect(serverId, 1);
+      } else {
+        // Any close the host did not ask for is a failure
+        this.updateServerStatus(serverId, "failed", {
+          lastError:
+            errorObj ??
+            new Error(`Connection to ${serverId} closed unexpectedly`),
+          lastErrorAt: new Date(),
+        });
+      }
+    }
+  }
+
+  private initServerStatus(serverId: string): void {
+    this.serverStatuses.set(serverId, {
+      serverId,
+      state: "idle",
+      attempts: 0,
+      since: new Date(),
+    });
+  }
+
+  /**
+   * Moves a server to a new connection state, merging in any extra status
+   * fields, and emits `serverStatusChanged`.
+   */
+  protected updateServerStatus(
+    serverId: string,
+    state: ServerConnectionState,
+    changes: Partial<
+      Pick<ServerStatus, "attempts" | "lastError" | "lastErrorAt" | "transport">
+    > = {}
+  ): void {
+    const previous = this.serverStatuses.get(serverId);
+    if (!previous) {
+      return;
     }
+    const now = new Date();
+    const next: ServerStatus = {
+      ...previous,
+      ...changes,
+      state,
+      since: previous.state === state ? previous.since : now,
+    };
+    if (state === "connected" && previous.state !== "connected") {
+      next.connectedAt = now;
+    }
+    this.serverStatuses.set(serverId, next);
+    this.emit("serverStatusChanged", serverId, { ...next }, previous.state);
+  }
+
+  /**
+   * Schedules a reconnection attempt for a dropped server using the
+   * exponential backoff settings from its reconnect policy.
+   */
+  protected scheduleReconnect(serverId: string, attempt: number): void {
+    const serverConf = this.serverConfigs.get(serverId);
+    if (!serverConf?.reconnect || !this.isStarted) {
+      return;
+    }
+    const policy = { ...DEFAULT_RECONNECT_POLICY, ...serverConf.reconnect };
+
+    if (attempt > policy.maxAttempts) {
+      const error = new McpHostError(
+        `Giving up reconnecting to ${serverId} after ${policy.maxAttempts} attempts`,
+        ErrorCodes.CONNECTION_FAILED,
+        { serverId }
+      );
+      this.log("error", error.message);
+      this.updateServerStatus(serverId, "failed", {
+        lastError: error,
+        lastErrorAt: new Date(),
+      });
+      this.emit("serverError", serverId, error);
+      return;
+    }
+
+    const delayMs = this.getReconnectDelay(policy, attempt);
+    this.updateServerStatus(serverId, "reconnecting", { attempts: attempt });
+    this.log(
+      "info",
+      `Reconnecting to ${serverId} in ${delayMs}ms (attempt ${attempt}/${policy.maxAttempts})`
+    );
+    this.emit("serverReconnecting", serverId, attempt, delayMs);
+
+    const timer = setTimeout(async () => {
+      this.reconnectTimers.delete(serverId);
+      const currentConf = this.serverConfigs.get(serverId);
+      if (!this.isStarted || !currentConf || this.clients.has(serverId)) {
+        return;
+      }
+
+      const connecting = this.connectToServer(currentConf);
+      const connectionAttempt = this.connectionAttempts.get(serverId);
+      await connecting;
+      if (connectionAttempt?.signal.aborted) {
+        // Superseded by a restart, removal or stop
+        return;
+      }
+      if (this.clients.has(serverId)) {
+        this.log(
+          "info",
+          `Reconnected to ${serverId} after ${attempt} attempt(s)`
+        );
+        this.emit("serverReconnected", serverId, attempt);
+      } else {
+        this.scheduleReconnect(serverId, attempt + 1);
+      }
+    }, delayMs);
+    this.reconnectTimers.set(serverId, timer);
+  }
+
+  private getReconnectDelay(
+    policy: Required<ReconnectPolicy>,
+    attempt: number
+  ): number {
+    const exponential = Math.min(
+      policy.maxDelayMs,
+      policy.baseDelayMs * 2 ** (attempt - 1)
+    );
+    const jitter = Math.min(Math.max(policy.jitter, 0), 1);
+    const offset = exponential * jitter * (Math.random() * 2 - 1);
+    return Math.max(
+      0,
+      Math.round(Math.min(policy.maxDelayMs, exponential + offset))
+    );
+  }
+
+  protected cancelReconnect(serverId: string): void {
+    const timer = this.reconnectTimers.get(serverId);
+    if (timer) {
+      clearTimeout(timer);
+      this.reconnectTimers.delete(serverId);
+    }
+  }
+
+  private cancelAllReconnects(): void {
+    this.reconnectTimers.forEach((timer) => clearTimeout(timer));
+    this.reconnectTimers.clear();
   }
 
   protected async updateServerCapabilities(
@@ -518,11 +995,11 @@ export class McpClientHostCore extends EventEmitter<McpHostEvents> {
     client: Client
   ): Promise<void> {
     this.log("info", `Updating capabilities for server: ${serverId}`);
-    this.removeServerCapabilities(serverId);
 
     const capabilities = client.getServerCapabilities();
     if (!capabilities) {
       this.log("warn", `Server ${serverId} reported no capabilities.`);
+      this.removeServerCapabilities(serverId);
       this.emit("capabilitiesUpdated");
       return;
     }
@@ -530,79 +1007,307 @@ export class McpClientHostCore extends EventEmitter<McpHostEvents> {
     // Store server capabilities
     this.serverCapabilities.set(serverId, capabilities);
 
-    const promises: Promise<unknown>[] = [];
+    const lists = this.getSupportedLists(capabilities);
+    if (!capabilities.resources) {
+      this.log(
+        "debug",
+        `Server ${serverId} does not declare resources capability.`
+      );
+    } else if (!capabilities.resources.templates) {
+      this.log(
+        "debug",
+        `Server ${serverId} does not support resource templates.`
+      );
+    }
+
+    // Drop entries for lists the server no longer supports
+    (Object.keys(CAPABILITY_LIST_NAMES) as CapabilityList[])
+      .filter((list) => !lists.includes(list))
+      .forEach((list) => this.removeServerEntries(list, serverId));
+
+    // Registered as refreshes, so list-changed notifications arriving
+    // meanwhile rerun the listing instead of racing it
+    await Promise.allSettled(
+      lists.map((list) => this.refreshServerList(serverId, client, list))
+    );
+    this.log("info", `Finished updating capabilities for server: ${serverId}`);
+    this.emit("capabilitiesUpdated");
+  }
+
+  /**
+   * Refreshes only the given lists of a server, e.g. after a list-changed
+   * notification, then emits `capabilitiesUpdated`.
+   * Notifications arriving while a list is being refreshed are coalesced into
+   * a single follow-up refresh of that list.
+   */
+  protected async refreshCapabilityLists(
+    serverId: string,
+    client: Client,
+    lists: CapabilityList[]
+  ): Promise<void> {
+    const supported = this.getSupportedLists(
+      this.serverCapabilities.get(serverId) ?? {}
+    );
+    const pending = lists.filter((list) => {
+      if (!supported.includes(list)) {
+        return false;
+      }
+      const inFlight = this.listRefreshes.get(`${serverId}/${list}`);
+      if (inFlight?.client === client) {
+        inFlight.rerun = true;
+        return false;
+      }
+      return true;
+    });
+    if (pending.length === 0) {
+      // Unsupported, or folded into the refresh already in progress
+      this.log("debug", `No new list refresh needed for ${serverId}`);
+      return;
+    }
+
+    await Promise.all(
+      pending.map((list) => this.refreshServerList(serverId, client, list))
+    );
+    if (this.clients.get(serverId) === client) {
+      this.emit("capabilitiesUpdated");
+    }
+  }
 
+  private getSupportedLists(
+    capabilities: ServerCapabilities
+  ): CapabilityList[] {
+    const lists: CapabilityList[] = [];
     if (capabilities.tools) {
-      promises.push(
-        client
-          .listTools()
-          .then((result) => this.addTools(serverId, result.tools))
-          .catch((e) =>
-            this.log("error", `Failed to list tools for ${serverId}`, e)
-          )
-      );
+      lists.push("tools");
     }
     if (capabilities.resources) {
-      promises.push(
-        client
-          .listResources()
-          .then((result) => this.addResources(serverId, result.resources))
-          .catch((e) =>
-            this.log("error", `Failed to list resources for ${serverId}`, e)
-          )
-      );
-
+      lists.push("resources");
       if (capabilities.resources.templates) {
-        promises.push(
-          client
-            .listResourceTemplates()
-            .then((result) =>
-              this.addResourceTemplates(serverId, result.resourceTemplates)
-            )
-            .catch((e) =>
-              this.log(
-                "error",
-                `Failed to list resource templates for ${serverId}`,
-                e
-              )
-            )
-        );
-      } else {
+        lists.push("resourceTemplates");
+      }
+    }
+    if (capabilities.prompts) {
+      lists.push("prompts");
+    }
+    return lists;
+  }
+
+  /**
+   * Fetches a list, once more for every burst of refresh requests made while
+   * it was being fetched. Joins the refresh of the same client in progress.
+   */
+  private refreshServerList(
+    serverId: string,
+    client: Client,
+    list: CapabilityList
+  ): Promise<void> {
+    const key = `${serverId}/${list}`;
+    const inFlight = this.listRefreshes.get(key);
+    if (inFlight?.client === client) {
+      inFlight.rerun = true;
+      return inFlight.done;
+    }
+
+    const refresh: ListRefresh = {
+      client,
+      rerun: false,
+      done: Promise.resolve(),
+    };
+    this.listRefreshes.set(key, refresh);
+    refresh.done = (async () => {
+      try {
+        do {
+          refresh.rerun = false;
+          await this.fetchServerList(serverId, client, list);
+        } while (refresh.rerun && this.clients.get(serverId) === client);
+      } finally {
+        // A refresh for a newer client may have taken the key over
+        if (this.listRefreshes.get(key) === refresh) {
+          this.listRefreshes.delete(key);
+        }
+      }
+    })();
+    return refresh.done;
+  }
+
+  /**
+   * Fetches one list from a server and swaps it into the aggregated map.
+   * On failure the previous entries are kept and the error is logged.
+   */
+  private async fetchServerList(
+    serverId: string,
+    client: Client,
+    list: CapabilityList
+  ): Promise<void> {
+    const listName = CAPABILITY_LIST_NAMES[list];
+    try {
+      switch (list) {
+        case "tools": {
+          const tools = await this.listAllPages(serverId, listName, (cursor) =>
+            client
+              .listTools({ cursor })
+              .then((result) => ({ ...result, items: result.tools }))
+          );
+          this.replaceServerEntries(
+            "tools",
+            serverId,
+            client,
+            this.buildTools(serverId, tools)
+          );
+          this.retryConflictingTools(serverId);
+          break;
+        }
+        case "resources": {
+          const resources = await this.listAllPages(
+            serverId,
+            listName,
+            (cursor) =>
+              client
+                .listResources({ cursor })
+                .then((result) => ({ ...result, items: result.resources }))
+          );
+          this.replaceServerEntries(
+            "resources",
+            serverId,
+            client,
+            this.buildResources(serverId, resources)
+          );
+          break;
+        }
+        case "resourceTemplates": {
+          const templates = await this.listAllPages(
+            serverId,
+            listName,
+            (cursor) =>
+              client.listResourceTemplates({ cursor }).then((result) => ({
+                ...result,
+                items: result.resourceTemplates,
+              }))
+          );
+          this.replaceServerEntries(
+            "resourceTemplates",
+            serverId,
+            client,
+            this.buildResourceTemplates(serverId, templates)
+          );
+          break;
+        }
+        case "prompts": {
+          const prompts = await this.listAllPages(
+            serverId,
+            listName,
+            (cursor) =>
+              client
+                .listPrompts({ cursor })
+                .then((result) => ({ ...result, items: result.prompts }))
+          );
+          this.replaceServerEntries(
+            "prompts",
+            serverId,
+            client,
+            this.buildPrompts(serverId, prompts)
+          );
+          break;
+        }
+      }
+    } catch (e) {
+      this.log("error", `Failed to list ${listName} for ${serverId}`, e);
+    }
+  }
+
+  /**
+   * Fetches every page of a list by following `nextCursor`, within the
+   * host's pagination limits. A warning is logged if the list is truncated.
+   */
+  private async listAllPages<T>(
+    serverId: string,
+    listName: string,
+    fetchPage: (cursor?: string) => Promise<ListPage<T>>
+  ): Promise<T[]> {
+    const { maxPages, maxItems } = {
+      ...DEFAULT_PAGINATION,
+      ...this.config.pagination,
+    };
+    const items: T[] = [];
+    const seenCursors = new Set<string>();
+    let cursor: string | undefined;
+    let pages = 0;
+
+    do {
+      const page = await fetchPage(cursor);
+      pages++;
+      items.push(...(page.items || []));
+      cursor = page.nextCursor;
+
+      // Guards against servers that hand back a cursor they already issued
+      if (cursor !== undefined && seenCursors.has(cursor)) {
         this.log(
-          "debug",
-          `Server ${serverId} does not support resource templates.`
+          "warn",
+          `Server ${serverId} repeated cursor "${cursor}" while listing ${listName}; stopping.`
         );
+        break;
       }
-    } else {
-      this.log(
-        "debug",
-        `Server ${serverId} does not declare resources capability.`
-      );
-    }
+      if (cursor !== undefined) {
+        seenCursors.add(cursor);
+      }
+    } while (
+      cursor !== undefined &&
+      pages < maxPages &&
+      items.length < maxItems
+    );
 
-    if (capabilities.prompts) {
-      promises.push(
-        client
-          .listPrompts()
-          .then((result) => this.addPrompts(serverId, result.prompts))
-          .catch((e) =>
-            this.log("error", `Failed to list prompts for ${serverId}`, e)
-          )
+    if (cursor !== undefined || items.length > maxItems) {
+      this.log(
+        "warn",
+        `Truncated ${listName} for ${serverId} at ${Math.min(
+          items.length,
+          maxItems
+        )} items after ${pages} page(s); the server reported more.`
       );
     }
-
-    await Promise.allSettled(promises);
-    this.log("info", `Finished updating capabilities for server: ${serverId}`);
-    this.emit("capabilitiesUpdated");
+    return items.slice(0, maxItems);
   }
 
-  private addTools(serverId: string, tools: Tool[]): void {
+  private buildTools(
+    serverId: string,
+    tools: Tool[]
+  ): Map<string, AggregatedTool> {
+    const entries = new Map<string, AggregatedTool>();
+    const previouslySkipped = this.conflictingTools.get(serverId)?.skipped;
+    const skipped = new Set<string>();
+    // Qualified names already used by other servers, mapped to their server
+    const takenNames = new Map<string, string>();
+    this.aggregatedTools.forEach((tool) => {
+      if (tool.serverId !== serverId) {
+        takenNames.set(tool.qualifiedName, tool.serverId);
+      }
+    });
+
     (tools || []).forEach((tool) => {
       const key = `${serverId}/${tool.name}`;
+      const qualifiedName = this.qualifyToolName(serverId, tool.name);
+      const owner = takenNames.get(qualifiedName);
+      if (owner !== undefined && !entries.has(key)) {
+        skipped.add(tool.name);
+        // Conflicts are reported once, not on every rebuild
+        if (!previouslySkipped?.has(tool.name)) {
+          const error = new McpHostError(
+            `Tool "${tool.name}" from ${serverId} conflicts with "${qualifiedName}" from ${owner}; skipping it`,
+            ErrorCodes.TOOL_NAME_CONFLICT,
+            { serverId }
+          );
+          this.log("error", error.message);
+          this.emit("serverError", serverId, error);
+        }
+        return;
+      }
+      takenNames.set(qualifiedName, serverId);
+
       // Only add annotations if they exist
       const toolObj: any = {
         ...tool,
         serverId,
+        qualifiedName,
       };
 
       // Only add annotations property if it exists and is not undefined
@@ -611,11 +1316,63 @@ export class McpClientHostCore extends EventEmitter<McpHostEvents> {
         toolObj.annotations = annotations;
       }
 
-      this.aggregatedTools.set(key, toolObj);
+      entries.set(key, toolObj);
     });
+
+    if (skipped.size > 0) {
+      this.conflictingTools.set(serverId, { tools, skipped });
+    } else {
+      this.conflictingTools.delete(serverId);
+    }
+    return entries;
+  }
+
+  /**
+   * Rebuilds the tools of connected servers that had tools skipped for a
+   * name conflict, after the tools of another server were removed or
+   * replaced, so that freed names are taken over.
+   */
+  private retryConflictingTools(changedServerId: string): void {
+    Array.from(this.conflictingTools.entries()).forEach(
+      ([serverId, { tools }]) => {
+        const client = this.clients.get(serverId);
+        if (serverId === changedServerId || !client) {
+          return;
+        }
+        this.replaceServerEntries(
+          "tools",
+          serverId,
+          client,
+          this.buildTools(serverId, tools)
+        );
+      }
+    );
+  }
+
+  /**
+   * Derives a tool's qualified name using the configured naming strategy.
+   */
+  protected qualifyToolName(serverId: string, toolName: string): string {
+    const { strategy = "prefix", separator = "__" } =
+      this.config.toolNaming ?? {};
+    if (typeof strategy === "function") {
+      return strategy(serverId, toolName);
+    }
+    switch (strategy) {
+      case "suffix":
+        return `${toolName}${separator}${serverId}`;
+      case "error-on-conflict":
+        return toolName;
+      default:
+        return `${serverId}${separator}${toolName}`;
+    }
   }
 
-  private addResources(serverId: string, resources: Resource[]): void {
+  private buildResources(
+    serverId: string,
+    resources: Resource[]
+  ): Map<string, AggregatedResource> {
+    const entries = new Map<string, AggregatedResource>();
     (resources || []).forEach((resource) => {
       const key = `${serverId}/${resource.uri}`;
       // Create base resource with serverId
@@ -630,52 +1387,186 @@ export class McpClientHostCore extends EventEmitter<McpHostEvents> {
         resourceObj.size = size;
       }
 
-      this.aggregatedResources.set(key, resourceObj);
+      entries.set(key, resourceObj);
     });
+    return entries;
   }
 
-  private addResourceTemplates(
+  private buildResourceTemplates(
     serverId: string,
     templates: ResourceTemplate[]
-  ): void {
-    templates.forEach((template) => {
-      const key = `${serverId}/${template.id}`;
-      this.aggregatedResourceTemplates.set(key, {
+  ): Map<string, AggregatedResourceTemplate> {
+    const entries = new Map<string, AggregatedResourceTemplate>();
+    const names = new Set<string>();
+    (templates || []).forEach((template) => {
+      // Templates have no ID; the URI template is what identifies them
+      const key = `${serverId}/${template.uriTemplate}`;
+      if (entries.has(key)) {
+        this.log(
+          "warn",
+          `Server ${serverId} lists resource template "${template.uriTemplate}" more than once; keeping the first.`
+        );
+        return;
+      }
+      // Templates sharing a name are all kept, as their URI templates differ
+      if (names.has(template.name)) {
+        this.log(
+          "debug",
+          `Server ${serverId} has several resource templates named "${template.name}".`
+        );
+      }
+      names.add(template.name);
+      entries.set(key, {
         ...template,
         serverId,
       });
     });
+    return entries;
   }
 
-  private addPrompts(serverId: string, prompts: Prompt[]): void {
+  private buildPrompts(
+    serverId: string,
+    prompts: Prompt[]
+  ): Map<string, AggregatedPrompt> {
+    const entries = new Map<string, AggregatedPrompt>();
     (prompts || []).forEach((prompt) => {
       const key = `${serverId}/${prompt.name}`;
-      this.aggregatedPrompts.set(key, { ...prompt, serverId });
+      entries.set(key, { ...prompt, serverId });
     });
+    return entries;
   }
 
-  private removeServerCapabilities(serverId: string): void {
-    const keysToDelete = <
-      K extends string | number | symbol,
-      V extends { serverId: string }
-    >(
-      map: Map<K, V>
-    ): K[] =>
-      Array.from(map.entries())
-        .filter(([, value]) => value.serverId === serverId)
-        .map(([key]) => key);
-
-    keysToDelete(this.aggregatedTools).forEach((key) =>
-      this.aggregatedTools.delete(key)
+  /**
+   * Swaps a server's entries in an aggregated map in a single synchronous
+   * step, so readers never see the list empty or half-updated.
+   * Results from a client that has since been replaced are discarded.
+   * Emits the list's change event if anything was added, removed or changed.
+   */
+  private replaceServerEntries(
+    list: CapabilityList,
+    serverId: string,
+    client: Client,
+    entries: Map<string, AggregatedEntry>
+  ): void {
+    if (this.clients.get(serverId) !== client) {
+      this.log("debug", `Discarding stale list results for ${serverId}`);
+      return;
+    }
+
+    const map = this.getAggregatedMap(list);
+    const changes: CapabilityChanges<AggregatedEntry> = {
+      added: [],
+      removed: [],
+      changed: [],
+    };
+    map.forEach((previous, key) => {
+      if (previous.serverId !== serverId) {
+        return;
+      }
+      const current = entries.get(key);
+      if (!current) {
+        changes.removed.push(previous);
+      } else if (JSON.stringify(previous) !== JSON.stringify(current)) {
+        changes.changed.push({ previous, current });
+      }
+    });
+    entries.forEach((current, key) => {
+      if (!map.has(key)) {
+        changes.added.push(current);
+      }
+    });
+
+    this.deleteServerEntries(map, serverId);
+    entries.forEach((value, key) => map.set(key, value));
+    this.emitListChanges(list, { [serverId]: changes });
+  }
+
+  private removeServerEntries(list: CapabilityList, serverId: string): void {
+    const removed = this.deleteServerEntries(
+      this.getAggregatedMap(list),
+      serverId
     );
-    keysToDelete(this.aggregatedResources).forEach((key) =>
-      this.aggregatedResources.delete(key)
+    this.emitListChanges(list, {
+      [serverId]: { added: [], removed, changed: [] },
+    });
+    if (list === "tools") {
+      this.conflictingTools.delete(serverId);
+      this.retryConflictingTools(serverId);
+    }
+  }
+
+  /** Deletes a server's entries from a map and returns them */
+  private deleteServerEntries(
+    map: Map<string, AggregatedEntry>,
+    serverId: string
+  ): AggregatedEntry[] {
+    const entries = Array.from(map.entries()).filter(
+      ([, value]) => value.serverId === serverId
     );
-    keysToDelete(this.aggregatedResourceTemplates).forEach((key) =>
-      this.aggregatedResourceTemplates.delete(key)
+    entries.forEach(([key]) => map.delete(key));
+    return entries.map(([, value]) => value);
+  }
+
+  private getAggregatedMap(list: CapabilityList): Map<string, AggregatedEntry> {
+    switch (list) {
+      case "tools":
+        return this.aggregatedTools;
+      case "resources":
+        return this.aggregatedResources;
+      case "resourceTemplates":
+        return this.aggregatedResourceTemplates;
+      case "prompts":
+        return this.aggregatedPrompts;
+    }
+  }
+
+  /**
+   * Emits the change event of a list, leaving out servers without changes.
+   * Nothing is emitted if no server has changes.
+   */
+  private emitListChanges(
+    list: CapabilityList,
+    diff: CapabilityDiff<AggregatedEntry>
+  ): void {
+    const changed = Object.entries(diff).filter(
+      ([, changes]) =>
+        changes.added.length > 0 ||
+        changes.removed.length > 0 ||
+        changes.changed.length > 0
     );
-    keysToDelete(this.aggregatedPrompts).forEach((key) =>
-      this.aggregatedPrompts.delete(key)
+    if (changed.length === 0) {
+      return;
+    }
+    const payload = Object.fromEntries(changed);
+
+    switch (list) {
+      case "tools":
+        this.emit("toolsChanged", payload as CapabilityDiff<AggregatedTool>);
+        break;
+      case "resources":
+        this.emit(
+          "resourcesChanged",
+          payload as CapabilityDiff<AggregatedResource>
+        );
+        break;
+      case "resourceTemplates":
+        this.emit(
+          "resourceTemplatesChanged",
+          payload as CapabilityDiff<AggregatedResourceTemplate>
+        );
+        break;
+      case "prompts":
+        this.emit(
+          "promptsChanged",
+          payload as CapabilityDiff<AggregatedPrompt>
+        );
+        break;
+    }
+  }
+
+  private removeServerCapabilities(serverId: string): void {
+    (Object.keys(CAPABILITY_LIST_NAMES) as CapabilityList[]).forEach((list) =>
+      this.removeServerEntries(list, serverId)
     );
 
     // Also remove from serverCapabilities map
@@ -683,10 +1574,60 @@ export class McpClientHostCore extends EventEmitter<McpHostEvents> {
   }
 
   private clearAggregatedCapabilities(): void {
-    this.aggregatedTools.clear();
-    this.aggregatedResources.clear();
-    this.aggregatedResourceTemplates.clear();
-    this.aggregatedPrompts.clear();
+    this.conflictingTools.clear();
+    (Object.keys(CAPABILITY_LIST_NAMES) as CapabilityList[]).forEach((list) => {
+      const map = this.getAggregatedMap(list);
+      const diff: CapabilityDiff<AggregatedEntry> = {};
+      map.forEach((entry) => {
+        diff[entry.serverId] ??= { added: [], removed: [], changed: [] };
+        diff[entry.serverId].removed.push(entry);
+      });
+      map.clear();
+      this.emitListChanges(list, diff);
+    });
+  }
+
+  /**
+   * Returns a copy of the roots a server sees: its scoped roots if any,
+   * otherwise the host-wide roots.
+   */
+  protected getEffectiveRoots(serverId: string): Root[] {
+    return [...(this.serverRoots.get(serverId) ?? this.currentRoots)];
+  }
+
+  /**
+   * Requests a minimum log level from a server with `logging/setLevel`.
+   *
+   * @throws {McpHostError} With code LOG_LEVEL_UPDATE_FAILED if the request fails.
+   */
+  protected async sendLogLevel(
+    serverId: string,
+    client: Client,
+    level: LoggingLevel
+  ): Promise<void> {
+    try {
+      await client.setLoggingLevel(level);
+      this.log("info", `Set log level of server ${serverId} to ${level}`);
+    } catch (e) {
+      throw new McpHostError(
+        `Failed to set log level of server ${serverId}`,
+        ErrorCodes.LOG_LEVEL_UPDATE_FAILED,
+        { serverId, cause: e instanceof Error ? e : undefined }
+      );
+    }
+  }
+
+  /**
+   * Creates the queue limiting the server's concurrent requests to its
+   * `maxConcurrentRequests`, or the host default. Limits below 1 mean
+   * unlimited.
+   */
+  private createRequestQueue(serverConf: ServerConfig): RequestQueue {
+    const limit =
+      serverConf.maxConcurrentRequests ?? this.config.maxConcurrentRequests;
+    return new RequestQueue(
+      limit !== undefined && limit >= 1 ? Math.floor(limit) : Infinity
+    );
   }
 
   protected getClientOrThrow(serverId: string): Client {
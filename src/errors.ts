@@ -1,3 +1,5 @@
+import { SchemaValidationIssue } from "./json-schema.js";
+
 export class McpHostError extends Error {
   public readonly serverId?: string;
   public readonly cause?: Error;
@@ -27,15 +29,48 @@ export class McpHostError extends Error {
   }
 }
 
+/**
+ * Error raised when a value does not match its JSON Schema, such as tool
+ * arguments checked against the tool's `inputSchema` or structured output
+ * checked against its `outputSchema`. Each failure is listed
+ * in `issues` with the JSON Pointer path of the offending value.
+ */
+export class SchemaValidationError extends McpHostError {
+  constructor(
+    message: string,
+    code: string,
+    public readonly issues: SchemaValidationIssue[],
+    options?: {
+      serverId?: string;
+      cause?: Error;
+    }
+  ) {
+    super(message, code, options);
+    this.name = "SchemaValidationError";
+  }
+}
+
 export const ErrorCodes = {
   ROOTS_UPDATE_FAILED: "ROOTS_UPDATE_FAILED",
   SERVER_NOT_FOUND: "SERVER_NOT_FOUND",
+  SERVER_ALREADY_EXISTS: "SERVER_ALREADY_EXISTS",
   INVALID_TRANSPORT: "INVALID_TRANSPORT",
   CONNECTION_FAILED: "CONNECTION_FAILED",
   SUBSCRIPTION_FAILED: "SUBSCRIPTION_FAILED",
   TOOL_CALL_FAILED: "TOOL_CALL_FAILED",
+  TOOL_NOT_FOUND: "TOOL_NOT_FOUND",
+  TOOL_NAME_CONFLICT: "TOOL_NAME_CONFLICT",
+  INVALID_TOOL_ARGUMENTS: "INVALID_TOOL_ARGUMENTS",
+  INVALID_STRUCTURED_CONTENT: "INVALID_STRUCTURED_CONTENT",
+  UNSUPPORTED_CONTENT: "UNSUPPORTED_CONTENT",
   RESOURCE_READ_FAILED: "RESOURCE_READ_FAILED",
   PROMPT_GET_FAILED: "PROMPT_GET_FAILED",
+  ROUTE_NOT_FOUND: "ROUTE_NOT_FOUND",
+  AMBIGUOUS_ROUTE: "AMBIGUOUS_ROUTE",
+  COMPLETIONS_NOT_SUPPORTED: "COMPLETIONS_NOT_SUPPORTED",
+  LOGGING_NOT_SUPPORTED: "LOGGING_NOT_SUPPORTED",
+  LOG_LEVEL_UPDATE_FAILED: "LOG_LEVEL_UPDATE_FAILED",
+  RATE_LIMITED: "RATE_LIMITED",
 } as const;
 
 export type McpHostErrorCode = (typeof ErrorCodes)[keyof typeof ErrorCodes];
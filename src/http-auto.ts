@@ -0,0 +1,161 @@
+import {
+  SSEClientTransport,
+  SSEClientTransportOptions,
+} from "@modelcontextprotocol/sdk/client/sse.js";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import {
+  StreamableHttpClientTransport,
+  StreamableHttpError,
+} from "./streamable-http.js";
+
+/** HTTP status codes that signal a server only speaks the legacy SSE transport */
+const SSE_FALLBACK_STATUSES = [400, 404, 405];
+
+/** The HTTP transport actually used after negotiation */
+export type NegotiatedHttpTransport = "streamable-http" | "sse";
+
+/**
+ * Options for the `HttpAutoClientTransport`.
+ */
+export interface HttpAutoClientTransportOptions {
+  /** Extra headers sent with every HTTP request, whichever transport is used */
+  headers?: Record<string, string>;
+  /** Optional configuration for the legacy SSE transport, if it is used */
+  sseOptions?: SSEClientTransportOptions;
+}
+
+/**
+ * Client transport that tries Streamable HTTP first and falls back to the
+ * deprecated HTTP+SSE transport when the server rejects the initialize POST
+ * with 400, 404 or 405, following the MCP backwards-compatibility guidance.
+ */
+export class HttpAutoClientTransport implements Transport {
+  private url: URL;
+  private options: HttpAutoClientTransportOptions;
+  private active?: Transport;
+  private negotiating = false;
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  /** The transport in use once the initialize request has succeeded */
+  negotiatedTransport?: NegotiatedHttpTransport;
+
+  constructor(url: URL, options?: HttpAutoClientTransportOptions) {
+    this.url = url;
+    this.options = options ?? {};
+  }
+
+  get sessionId(): string | undefined {
+    return this.active?.sessionId;
+  }
+
+  async start(): Promise<void> {
+    if (this.active) {
+      throw new Error(
+        "HttpAutoClientTransport already started! If using Client class, note that connect() calls start() automatically."
+      );
+    }
+    const transport = new StreamableHttpClientTransport(this.url, {
+      headers: this.options.headers,
+    });
+    this.attach(transport);
+    await transport.start();
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (!this.active) {
+      throw new Error("Not connected");
+    }
+    if (
+      this.negotiatedTransport ||
+      !("method" in message) ||
+      message.method !== "initialize"
+    ) {
+      return this.active.send(message);
+    }
+
+    // Errors from the first attempt are only reported if there is no fallback
+    this.negotiating = true;
+    try {
+      await this.active.send(message);
+      this.negotiatedTransport = "streamable-http";
+    } catch (error) {
+      if (
+        !(error instanceof StreamableHttpError) ||
+        !SSE_FALLBACK_STATUSES.includes(error.status)
+      ) {
+        throw error;
+      }
+      await this.fallBackToSse();
+      await this.active.send(message);
+      this.negotiatedTransport = "sse";
+    } finally {
+      this.negotiating = false;
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.active) {
+      await this.active.close();
+    } else {
+      this.onclose?.();
+    }
+  }
+
+  private async fallBackToSse(): Promise<void> {
+    const previous = this.active;
+    if (previous) {
+      // Detach first so closing the failed transport does not close the client
+      previous.onclose = undefined;
+      previous.onerror = undefined;
+      previous.onmessage = undefined;
+      await previous.close().catch(() => undefined);
+    }
+
+    const transport = new SSEClientTransport(this.url, this.buildSseOptions());
+    this.attach(transport);
+    await transport.start();
+  }
+
+  private buildSseOptions(): SSEClientTransportOptions {
+    const { headers, sseOptions } = this.options;
+    if (!headers) {
+      return sseOptions ?? {};
+    }
+    return {
+      ...sseOptions,
+      eventSourceInit: sseOptions?.eventSourceInit ?? {
+        fetch: (url, init) =>
+          fetch(url, {
+            ...init,
+            headers: {
+              ...init?.headers,
+              ...headers,
+              Accept: "text/event-stream",
+            },
+          }),
+      },
+      requestInit: {
+        ...sseOptions?.requestInit,
+        headers: {
+          ...headers,
+          ...(sseOptions?.requestInit?.headers as Record<string, string>),
+        },
+      },
+    };
+  }
+
+  private attach(transport: Transport): void {
+    transport.onclose = () => this.onclose?.();
+    transport.onerror = (error) => {
+      if (!this.negotiating) {
+        this.onerror?.(error);
+      }
+    };
+    transport.onmessage = (message) => this.onmessage?.(message);
+    this.active = transport;
+  }
+}
@@ -1,7 +1,61 @@
 export { McpClientHost } from "./api.js";
 export type { McpHostConfig } from "./core.js";
-export { McpHostError, ErrorCodes } from "./errors.js";
-export type { ServerSuggestion } from "./uri-utils.js";
+export { McpHostError, SchemaValidationError, ErrorCodes } from "./errors.js";
+export {
+  StreamableHttpClientTransport,
+  StreamableHttpError,
+} from "./streamable-http.js";
+export type { StreamableHttpClientTransportOptions } from "./streamable-http.js";
+export { HttpAutoClientTransport } from "./http-auto.js";
+export type {
+  HttpAutoClientTransportOptions,
+  NegotiatedHttpTransport,
+} from "./http-auto.js";
+export { expandResourceTemplate, matchUriTemplate } from "./uri-utils.js";
+export {
+  validateJsonSchema,
+  formatValidationIssues,
+  normalizeSchema,
+} from "./json-schema.js";
+export type {
+  JsonSchema,
+  SchemaValidationIssue,
+  SchemaTarget,
+  SchemaNormalizationResult,
+} from "./json-schema.js";
+export { getStructuredContent } from "./tool-results.js";
+export { convertTools, toProviderToolName } from "./providers.js";
+export type {
+  LlmProvider,
+  OpenAITool,
+  AnthropicTool,
+  GeminiFunctionDeclaration,
+  ProviderToolFormats,
+  ProviderToolReference,
+  ProviderToolSet,
+  ConvertToolsOptions,
+} from "./providers.js";
+export { convertToolResult, convertPromptResult } from "./provider-messages.js";
+export type {
+  MessageContent,
+  OpenAIContentPart,
+  OpenAIMessage,
+  AnthropicContentBlock,
+  AnthropicToolResultBlock,
+  AnthropicMessage,
+  GeminiPart,
+  GeminiContent,
+  ProviderMessageFormats,
+  ProviderToolCall,
+  UnsupportedContentFallback,
+  MessageConversionOptions,
+} from "./provider-messages.js";
+export type {
+  ServerSuggestion,
+  ResourceTemplateMatch,
+  TemplateVariables,
+  TemplateVariableValue,
+} from "./uri-utils.js";
 export type {
   AggregatedTool,
   AggregatedResource,
@@ -9,8 +63,37 @@ export type {
   AggregatedPrompt,
   RequestOptions,
   McpRequestOptions,
+  SetRootsOptions,
   SimplifiedSamplingHandler,
   ServerConfig,
+  CustomServerConfig,
+  InProcessServerConfig,
+  TransportFactory,
+  ReconnectPolicy,
+  PaginationOptions,
+  ToolNamingStrategy,
+  ToolNamingOptions,
+  AmbiguityPolicy,
+  RoutingOptions,
+  ValidationOptions,
+  StructuredContentValidation,
+  StructuredContentValidationResult,
+  StructuredCallToolResult,
+  RoutedRequestOptions,
+  RoutedResult,
+  CompletionSuggestions,
+  ServerLogEntry,
+  LoggingLevel,
+  RequestQueueStatus,
+  RequestQueueEvent,
+  RateLimit,
+  RateLimitBehavior,
+  RateLimitOptions,
+  RateLimitEvent,
+  ServerConnectionState,
+  ServerStatus,
+  CapabilityChanges,
+  CapabilityDiff,
   Progress,
   ProgressCallback,
   // Export Tool interface to fix the errors in the chatbot app
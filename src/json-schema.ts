@@ -0,0 +1,949 @@
+/**
+ * A JSON Schema, as found in a tool's `inputSchema`. Boolean schemas accept
+ * (`true`) or reject (`false`) every value.
+ */
+export type JsonSchema = { [keyword: string]: unknown } | boolean;
+
+/**
+ * A single validation failure.
+ */
+export interface SchemaValidationIssue {
+  /** JSON Pointer to the offending value (e.g., `/items/0/name`), `""` for the value itself */
+  path: string;
+  /** The schema keyword that failed (e.g., `type`, `required`) */
+  keyword: string;
+  /** Human-readable description of the failure, relative to `path` */
+  message: string;
+}
+
+type SchemaObject = { [keyword: string]: unknown };
+
+/**
+ * Validates a value against a JSON Schema.
+ *
+ * Covers the keywords used to describe tool arguments: `type`, `enum`,
+ * `const`, string, number, array and object constraints, `allOf`, `anyOf`,
+ * `oneOf`, `not`, `if`/`then`/`else` and local `$ref`s (`#/...`).
+ * `format` and unknown keywords are ignored, as are unresolvable `$ref`s
+ * and `$ref`s re-entered in a cycle, so unsupported schemas never reject a
+ * value.
+ *
+ * @returns The validation issues, empty if the value is valid.
+ */
+export function validateJsonSchema(
+  schema: JsonSchema,
+  value: unknown
+): SchemaValidationIssue[] {
+  const issues: SchemaValidationIssue[] = [];
+  validateNode(schema, value, "", { root: schema, refs: [] }, issues);
+  return issues;
+}
+
+/**
+ * Formats validation issues as a single line, one `<path> <message>` per issue.
+ */
+export function formatValidationIssues(
+  issues: SchemaValidationIssue[]
+): string {
+  return issues
+    .map((issue) => `${issue.path || "/"} ${issue.message}`)
+    .join("; ");
+}
+
+/**
+ * Schema subset targeted by `normalizeSchema`:
+ * - "strict": The JSON Schema subset of OpenAI and Anthropic strict tool modes
+ * - "openapi": The OpenAPI schema subset of Gemini function declarations
+ */
+export type SchemaTarget = "strict" | "openapi";
+
+/**
+ * A schema rewritten by `normalizeSchema`.
+ */
+export interface SchemaNormalizationResult {
+  /** The rewritten schema */
+  schema: { [keyword: string]: unknown };
+  /**
+   * Lossy conversions, such as removed constraints. `path` points to the
+   * affected subschema in the rewritten schema.
+   */
+  issues: SchemaValidationIssue[];
+}
+
+/**
+ * Rewrites a schema, typically a tool's `inputSchema`, into the subset
+ * accepted by a provider's strict tool mode:
+ * - Local `$ref`s are inlined and `allOf`s merged, `oneOf` becomes `anyOf`
+ *   and `const` a single-value `enum`.
+ * - "strict": Objects are closed (`additionalProperties: false`) and list
+ *   all their properties as `required`; optional properties become nullable,
+ *   so `null` stands for an omitted value. Untyped schemas are narrowed to
+ *   scalars.
+ * - "openapi": Type lists become `nullable` or `anyOf`, and
+ *   `additionalProperties` is removed.
+ * - Other validation keywords (`format`, `pattern`, bounds, `not`, ...) are
+ *   removed. Annotations and unknown keywords are dropped silently.
+ *
+ * The input schema is not modified.
+ *
+ * @returns The rewritten schema and the lossy conversions made.
+ */
+export function normalizeSchema(
+  schema: JsonSchema,
+  target: SchemaTarget = "strict"
+): SchemaNormalizationResult {
+  const issues: SchemaValidationIssue[] = [];
+  const normalized = normalizeNode(schema, "", {
+    root: schema,
+    target,
+    refs: [],
+    issues,
+  });
+  return { schema: normalized, issues };
+}
+
+/** State shared by one validation run */
+interface ValidationContext {
+  root: JsonSchema;
+  /** `$ref`s being followed and the values they apply to, to stop at cycles */
+  refs: Array<{ ref: string; value: unknown }>;
+}
+
+function validateNode(
+  schema: JsonSchema,
+  value: unknown,
+  path: string,
+  ctx: ValidationContext,
+  issues: SchemaValidationIssue[]
+): void {
+  if (schema === true) {
+    return;
+  }
+  if (schema === false) {
+    issues.push({ path, keyword: "false", message: "is not allowed" });
+    return;
+  }
+
+  if (typeof schema.$ref === "string") {
+    const ref = schema.$ref;
+    // Refs re-entered for the same value form a cycle and add no constraints
+    const cyclic = ctx.refs.some(
+      (entry) => entry.ref === ref && Object.is(entry.value, value)
+    );
+    const target = cyclic ? undefined : resolveRef(ctx.root, ref);
+    if (target !== undefined) {
+      ctx.refs.push({ ref, value });
+      validateNode(target, value, path, ctx, issues);
+      ctx.refs.pop();
+    }
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(type, value))) {
+      // Other keywords would only add noise once the type is wrong
+      issues.push({
+        path,
+        keyword: "type",
+        message: `must be ${types.join(" or ")}`,
+      });
+      return;
+    }
+  }
+
+  if (
+    Array.isArray(schema.enum) &&
+    !schema.enum.some((option) => deepEqual(option, value))
+  ) {
+    issues.push({
+      path,
+      keyword: "enum",
+      message: `must be one of ${schema.enum
+        .map((option) => JSON.stringify(option))
+        .join(", ")}`,
+    });
+  }
+  if ("const" in schema && !deepEqual(schema.const, value)) {
+    issues.push({
+      path,
+      keyword: "const",
+      message: `must be ${JSON.stringify(schema.const)}`,
+    });
+  }
+
+  if (typeof value === "string") {
+    validateString(schema, value, path, issues);
+  } else if (typeof value === "number") {
+    validateNumber(schema, value, path, issues);
+  } else if (Array.isArray(value)) {
+    validateArray(schema, value, path, ctx, issues);
+  } else if (isPlainObject(value)) {
+    validateObject(schema, value, path, ctx, issues);
+  }
+
+  validateCombinators(schema, value, path, ctx, issues);
+}
+
+function validateString(
+  schema: SchemaObject,
+  value: string,
+  path: string,
+  issues: SchemaValidationIssue[]
+): void {
+  // Lengths count code points, not UTF-16 code units
+  const length = Array.from(value).length;
+  if (typeof schema.minLength === "number" && length < schema.minLength) {
+    issues.push({
+      path,
+      keyword: "minLength",
+      message: `must have at least ${schema.minLength} character(s)`,
+    });
+  }
+  if (typeof schema.maxLength === "number" && length > schema.maxLength) {
+    issues.push({
+      path,
+      keyword: "maxLength",
+      message: `must have at most ${schema.maxLength} character(s)`,
+    });
+  }
+  if (typeof schema.pattern === "string") {
+    const pattern = compilePattern(schema.pattern);
+    if (pattern && !pattern.test(value)) {
+      issues.push({
+        path,
+        keyword: "pattern",
+        message: `must match pattern "${schema.pattern}"`,
+      });
+    }
+  }
+}
+
+function validateNumber(
+  schema: SchemaObject,
+  value: number,
+  path: string,
+  issues: SchemaValidationIssue[]
+): void {
+  const { minimum, maximum, exclusiveMinimum, exclusiveMaximum, multipleOf } =
+    schema;
+
+  if (typeof minimum === "number") {
+    // Draft 4 expresses exclusive bounds as booleans next to minimum/maximum
+    if (exclusiveMinimum === true ? value <= minimum : value < minimum) {
+      issues.push({
+        path,
+        keyword: "minimum",
+        message: `must be ${exclusiveMinimum === true ? ">" : ">="} ${minimum}`,
+      });
+    }
+  }
+  if (typeof maximum === "number") {
+    if (exclusiveMaximum === true ? value >= maximum : value > maximum) {
+      issues.push({
+        path,
+        keyword: "maximum",
+        message: `must be ${exclusiveMaximum === true ? "<" : "<="} ${maximum}`,
+      });
+    }
+  }
+  if (typeof exclusiveMinimum === "number" && value <= exclusiveMinimum) {
+    issues.push({
+      path,
+      keyword: "exclusiveMinimum",
+      message: `must be > ${exclusiveMinimum}`,
+    });
+  }
+  if (typeof exclusiveMaximum === "number" && value >= exclusiveMaximum) {
+    issues.push({
+      path,
+      keyword: "exclusiveMaximum",
+      message: `must be < ${exclusiveMaximum}`,
+    });
+  }
+  if (typeof multipleOf === "number" && multipleOf > 0) {
+    const quotient = value / multipleOf;
+    if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+      issues.push({
+        path,
+        keyword: "multipleOf",
+        message: `must be a multiple of ${multipleOf}`,
+      });
+    }
+  }
+}
+
+function validateArray(
+  schema: SchemaObject,
+  value: unknown[],
+  path: string,
+  ctx: ValidationContext,
+  issues: SchemaValidationIssue[]
+): void {
+  // Tuple forms: `prefixItems` (2020-12) or an `items` array (earlier drafts)
+  const tuple = Array.isArray(schema.prefixItems)
+    ? (schema.prefixItems as JsonSchema[])
+    : Array.isArray(schema.items)
+    ? (schema.items as JsonSchema[])
+    : [];
+  const rest = Array.isArray(schema.prefixItems)
+    ? schema.items
+    : Array.isArray(schema.items)
+    ? schema.additionalItems
+    : schema.items;
+
+  value.forEach((item, index) => {
+    const itemSchema = index < tuple.length ? tuple[index] : rest;
+    if (isSchema(itemSchema)) {
+      validateNode(itemSchema, item, `${path}/${index}`, ctx, issues);
+    }
+  });
+
+  if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+    issues.push({
+      path,
+      keyword: "minItems",
+      message: `must have at least ${schema.minItems} item(s)`,
+    });
+  }
+  if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+    issues.push({
+      path,
+      keyword: "maxItems",
+      message: `must have at most ${schema.maxItems} item(s)`,
+    });
+  }
+  if (schema.uniqueItems === true) {
+    const duplicate = value.findIndex((item, index) =>
+      value.slice(0, index).some((other) => deepEqual(other, item))
+    );
+    if (duplicate !== -1) {
+      issues.push({
+        path: `${path}/${duplicate}`,
+        keyword: "uniqueItems",
+        message: "duplicates an earlier item",
+      });
+    }
+  }
+  if (
+    isSchema(schema.contains) &&
+    !value.some((item) => isValid(schema.contains as JsonSchema, item, ctx))
+  ) {
+    issues.push({
+      path,
+      keyword: "contains",
+      message: "must contain at least one matching item",
+    });
+  }
+}
+
+function validateObject(
+  schema: SchemaObject,
+  value: Record<string, unknown>,
+  path: string,
+  ctx: ValidationContext,
+  issues: SchemaValidationIssue[]
+): void {
+  const properties = isPlainObject(schema.properties)
+    ? (schema.properties as Record<string, JsonSchema>)
+    : {};
+  const patternProperties = isPlainObject(schema.patternProperties)
+    ? Object.entries(schema.patternProperties as Record<string, JsonSchema>)
+        .map(([pattern, propertySchema]) => ({
+          pattern: compilePattern(pattern),
+          propertySchema,
+        }))
+        .filter(({ pattern }) => pattern !== undefined)
+    : [];
+
+  if (Array.isArray(schema.required)) {
+    for (const name of schema.required) {
+      if (typeof name === "string" && !hasOwn(value, name)) {
+        issues.push({
+          path: `${path}/${escapePointer(name)}`,
+          keyword: "required",
+          message: "is required",
+        });
+      }
+    }
+  }
+
+  for (const [name, propertyValue] of Object.entries(value)) {
+    const propertyPath = `${path}/${escapePointer(name)}`;
+    let matched = false;
+
+    if (hasOwn(properties, name)) {
+      matched = true;
+      validateNode(properties[name], propertyValue, propertyPath, ctx, issues);
+    }
+    for (const { pattern, propertySchema } of patternProperties) {
+      if (pattern?.test(name)) {
+        matched = true;
+        validateNode(propertySchema, propertyValue, propertyPath, ctx, issues);
+      }
+    }
+    if (!matched && schema.additionalProperties !== undefined) {
+      if (schema.additionalProperties === false) {
+        issues.push({
+          path: propertyPath,
+          keyword: "additionalProperties",
+          message: "is not allowed",
+        });
+      } else if (isSchema(schema.additionalProperties)) {
+        validateNode(
+          schema.additionalProperties,
+          propertyValue,
+          propertyPath,
+          ctx,
+          issues
+        );
+      }
+    }
+  }
+
+  const count = Object.keys(value).length;
+  if (
+    typeof schema.minProperties === "number" &&
+    count < schema.minProperties
+  ) {
+    issues.push({
+      path,
+      keyword: "minProperties",
+      message: `must have at least ${schema.minProperties} propert(ies)`,
+    });
+  }
+  if (
+    typeof schema.maxProperties === "number" &&
+    count > schema.maxProperties
+  ) {
+    issues.push({
+      path,
+      keyword: "maxProperties",
+      message: `must have at most ${schema.maxProperties} propert(ies)`,
+    });
+  }
+}
+
+function validateCombinators(
+  schema: SchemaObject,
+  value: unknown,
+  path: string,
+  ctx: ValidationContext,
+  issues: SchemaValidationIssue[]
+): void {
+  if (Array.isArray(schema.allOf)) {
+    for (const subschema of schema.allOf as JsonSchema[]) {
+      validateNode(subschema, value, path, ctx, issues);
+    }
+  }
+  if (
+    Array.isArray(schema.anyOf) &&
+    !(schema.anyOf as JsonSchema[]).some((subschema) =>
+      isValid(subschema, value, ctx)
+    )
+  ) {
+    issues.push({
+      path,
+      keyword: "anyOf",
+      message: "must match at least one of the allowed schemas",
+    });
+  }
+  if (Array.isArray(schema.oneOf)) {
+    const matches = (schema.oneOf as JsonSchema[]).filter((subschema) =>
+      isValid(subschema, value, ctx)
+    ).length;
+    if (matches !== 1) {
+      issues.push({
+        path,
+        keyword: "oneOf",
+        message: `must match exactly one of the allowed schemas (matched ${matches})`,
+      });
+    }
+  }
+  if (isSchema(schema.not) && isValid(schema.not, value, ctx)) {
+    issues.push({
+      path,
+      keyword: "not",
+      message: "must not match the excluded schema",
+    });
+  }
+  if (isSchema(schema.if)) {
+    const branch = isValid(schema.if, value, ctx) ? schema.then : schema.else;
+    if (isSchema(branch)) {
+      validateNode(branch, value, path, ctx, issues);
+    }
+  }
+}
+
+function isValid(
+  schema: JsonSchema,
+  value: unknown,
+  ctx: ValidationContext
+): boolean {
+  const issues: SchemaValidationIssue[] = [];
+  validateNode(schema, value, "", ctx, issues);
+  return issues.length === 0;
+}
+
+/** State shared while normalizing a schema */
+interface NormalizeContext {
+  root: JsonSchema;
+  target: SchemaTarget;
+  /** `$ref`s being inlined on the current path, to stop at recursion */
+  refs: string[];
+  issues: SchemaValidationIssue[];
+}
+
+/** Validation keywords outside the subset kept by `normalizeSchema` */
+const REMOVED_KEYWORDS = [
+  "format",
+  "pattern",
+  "minLength",
+  "maxLength",
+  "minimum",
+  "maximum",
+  "exclusiveMinimum",
+  "exclusiveMaximum",
+  "multipleOf",
+  "minItems",
+  "maxItems",
+  "uniqueItems",
+  "contains",
+  "minContains",
+  "maxContains",
+  "prefixItems",
+  "additionalItems",
+  "unevaluatedItems",
+  "minProperties",
+  "maxProperties",
+  "patternProperties",
+  "propertyNames",
+  "unevaluatedProperties",
+  "dependencies",
+  "dependentRequired",
+  "dependentSchemas",
+  "not",
+  "if",
+  "then",
+  "else",
+];
+
+/** Types an untyped schema is narrowed to in strict mode */
+const SCALAR_TYPES = ["string", "number", "boolean", "null"];
+
+function normalizeNode(
+  schema: JsonSchema,
+  path: string,
+  ctx: NormalizeContext
+): SchemaObject {
+  if (typeof schema === "boolean") {
+    if (!schema) {
+      reportLoss(
+        ctx,
+        path,
+        "false",
+        "schema rejecting every value was removed"
+      );
+    }
+    return normalizeNode({}, path, ctx);
+  }
+  if (typeof schema.$ref === "string") {
+    const [inlined, inner] = inlineRef(schema, path, ctx);
+    return normalizeNode(inlined, path, inner);
+  }
+  if (Array.isArray(schema.allOf)) {
+    const [merged, inner] = mergeAllOf(schema, path, ctx);
+    return normalizeNode(merged, path, inner);
+  }
+
+  for (const keyword of REMOVED_KEYWORDS) {
+    if (keyword in schema) {
+      reportLoss(ctx, path, keyword, `${keyword} is not supported`);
+    }
+  }
+
+  let types = (Array.isArray(schema.type) ? schema.type : [schema.type]).filter(
+    (type): type is string => typeof type === "string"
+  );
+  if (types.length === 0 && isPlainObject(schema.properties)) {
+    types = ["object"];
+  } else if (types.length === 0 && schema.items !== undefined) {
+    types = ["array"];
+  }
+  if (schema.nullable === true && types.length > 0 && !types.includes("null")) {
+    types.push("null");
+  }
+
+  const out: SchemaObject = {};
+  for (const keyword of ["title", "description"]) {
+    if (typeof schema[keyword] === "string") {
+      out[keyword] = schema[keyword];
+    }
+  }
+  if (Array.isArray(schema.enum)) {
+    out.enum = structuredClone(schema.enum);
+  } else if ("const" in schema) {
+    out.enum = [structuredClone(schema.const)];
+  }
+  if (types.includes("object")) {
+    normalizeObject(schema, out, path, ctx);
+  }
+  if (types.includes("array")) {
+    normalizeItems(schema, out, path, ctx);
+  }
+
+  let anyOf = Array.isArray(schema.anyOf) ? schema.anyOf : undefined;
+  if (Array.isArray(schema.oneOf)) {
+    reportLoss(
+      ctx,
+      path,
+      "oneOf",
+      anyOf
+        ? "oneOf next to anyOf is not supported"
+        : "oneOf was relaxed to anyOf"
+    );
+    anyOf ??= schema.oneOf;
+  }
+  if (anyOf) {
+    out.anyOf = anyOf
+      .filter(isSchema)
+      .map((sub, index) => normalizeNode(sub, `${path}/anyOf/${index}`, ctx));
+  }
+
+  if (ctx.target === "openapi") {
+    const nonNull = types.filter((type) => type !== "null");
+    if (nonNull.length < types.length) {
+      out.nullable = true;
+    }
+    if (nonNull.length === 1) {
+      out.type = nonNull[0];
+    } else if (nonNull.length > 1 && !out.anyOf) {
+      out.anyOf = nonNull.map((type) => ({ type }));
+    }
+  } else if (types.length > 0) {
+    out.type = types.length === 1 ? types[0] : types;
+  } else if (!out.enum && !out.anyOf) {
+    reportLoss(
+      ctx,
+      path,
+      "type",
+      `untyped schema was narrowed to ${SCALAR_TYPES.join(", ")}`
+    );
+    out.anyOf = SCALAR_TYPES.map((type) => ({ type }));
+  }
+  return out;
+}
+
+function normalizeObject(
+  schema: SchemaObject,
+  out: SchemaObject,
+  path: string,
+  ctx: NormalizeContext
+): void {
+  const required = new Set(
+    Array.isArray(schema.required) ? schema.required : []
+  );
+  const properties: SchemaObject = {};
+  if (isPlainObject(schema.properties)) {
+    for (const [name, sub] of Object.entries(schema.properties)) {
+      if (!isSchema(sub)) {
+        continue;
+      }
+      const property = normalizeNode(
+        sub,
+        `${path}/properties/${escapePointer(name)}`,
+        ctx
+      );
+      properties[name] =
+        ctx.target === "strict" && !required.has(name)
+          ? makeNullable(property)
+          : property;
+    }
+  }
+  out.properties = properties;
+
+  const names = Object.keys(properties);
+  const open =
+    schema.additionalProperties !== undefined &&
+    schema.additionalProperties !== false;
+  if (ctx.target === "strict") {
+    out.required = names;
+    out.additionalProperties = false;
+    if (open) {
+      reportLoss(
+        ctx,
+        path,
+        "additionalProperties",
+        "additional properties are no longer allowed"
+      );
+    } else if (
+      schema.additionalProperties === undefined &&
+      names.length === 0 &&
+      path !== ""
+    ) {
+      // A root without properties is a tool taking no arguments
+      reportLoss(
+        ctx,
+        path,
+        "additionalProperties",
+        "free-form object was closed and can no longer hold any properties"
+      );
+    }
+    return;
+  }
+  if (names.some((name) => required.has(name))) {
+    out.required = names.filter((name) => required.has(name));
+  }
+  if (isPlainObject(schema.additionalProperties)) {
+    reportLoss(
+      ctx,
+      path,
+      "additionalProperties",
+      "additionalProperties is not supported"
+    );
+  }
+}
+
+function normalizeItems(
+  schema: SchemaObject,
+  out: SchemaObject,
+  path: string,
+  ctx: NormalizeContext
+): void {
+  if (Array.isArray(schema.items)) {
+    reportLoss(ctx, path, "items", "tuple items were relaxed to anyOf");
+    out.items = {
+      anyOf: schema.items
+        .filter(isSchema)
+        .map((sub, index) =>
+          normalizeNode(sub, `${path}/items/anyOf/${index}`, ctx)
+        ),
+    };
+    return;
+  }
+  out.items = normalizeNode(
+    isSchema(schema.items) ? schema.items : true,
+    `${path}/items`,
+    ctx
+  );
+}
+
+/**
+ * Replaces a `$ref` by its target, keeping the keywords next to it.
+ * Recursive and unresolvable refs are dropped.
+ */
+function inlineRef(
+  schema: SchemaObject,
+  path: string,
+  ctx: NormalizeContext
+): [JsonSchema, NormalizeContext] {
+  const { $ref, ...siblings } = schema;
+  const ref = String($ref);
+  const recursive = ctx.refs.includes(ref);
+  const target = recursive ? undefined : resolveRef(ctx.root, ref);
+  if (target === undefined) {
+    reportLoss(
+      ctx,
+      path,
+      "$ref",
+      recursive
+        ? `recursive $ref ${ref} was not inlined`
+        : `$ref ${ref} could not be resolved`
+    );
+    return [siblings, ctx];
+  }
+  const inlined =
+    typeof target === "boolean"
+      ? target && siblings
+      : { ...target, ...siblings };
+  return [inlined, { ...ctx, refs: [...ctx.refs, ref] }];
+}
+
+/**
+ * Merges the `allOf` subschemas into the schema. Properties and `required`
+ * are combined; for other keywords the first definition wins.
+ */
+function mergeAllOf(
+  schema: SchemaObject,
+  path: string,
+  ctx: NormalizeContext
+): [SchemaObject, NormalizeContext] {
+  const { allOf, ...merged } = schema;
+  let inner = ctx;
+  for (const member of allOf as unknown[]) {
+    let sub = member;
+    while (isPlainObject(sub) && typeof sub.$ref === "string") {
+      [sub, inner] = inlineRef(sub, path, inner);
+    }
+    if (sub === false) {
+      reportLoss(
+        ctx,
+        path,
+        "allOf",
+        "schema rejecting every value was removed"
+      );
+    }
+    if (!isPlainObject(sub)) {
+      continue;
+    }
+    for (const [keyword, value] of Object.entries(sub)) {
+      if (keyword === "properties" && isPlainObject(value)) {
+        const properties = isPlainObject(merged.properties)
+          ? { ...merged.properties }
+          : {};
+        for (const [name, property] of Object.entries(value)) {
+          if (
+            hasOwn(properties, name) &&
+            !deepEqual(properties[name], property)
+          ) {
+            reportLoss(
+              ctx,
+              `${path}/properties/${escapePointer(name)}`,
+              "allOf",
+              "conflicting allOf definitions, the first was kept"
+            );
+            continue;
+          }
+          properties[name] = property;
+        }
+        merged.properties = properties;
+      } else if (keyword === "required" && Array.isArray(value)) {
+        merged.required = [
+          ...new Set([
+            ...(Array.isArray(merged.required) ? merged.required : []),
+            ...value,
+          ]),
+        ];
+      } else if (!(keyword in merged)) {
+        merged[keyword] = value;
+      } else if (!deepEqual(merged[keyword], value)) {
+        reportLoss(
+          ctx,
+          path,
+          keyword,
+          `conflicting allOf definitions of ${keyword}, the first was kept`
+        );
+      }
+    }
+  }
+  return [merged, inner];
+}
+
+/**
+ * Lets a normalized schema also accept `null`, which strict modes use for
+ * omitted optional properties.
+ */
+function makeNullable(schema: SchemaObject): SchemaObject {
+  if (Array.isArray(schema.anyOf)) {
+    return schema.anyOf.some((sub) => isPlainObject(sub) && sub.type === "null")
+      ? schema
+      : { ...schema, anyOf: [...schema.anyOf, { type: "null" }] };
+  }
+  if (schema.type === undefined) {
+    return { anyOf: [schema, { type: "null" }] };
+  }
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  const nullable: SchemaObject = {
+    ...schema,
+    type: types.includes("null") ? schema.type : [...types, "null"],
+  };
+  if (Array.isArray(schema.enum) && !schema.enum.includes(null)) {
+    nullable.enum = [...schema.enum, null];
+  }
+  return nullable;
+}
+
+function reportLoss(
+  ctx: NormalizeContext,
+  path: string,
+  keyword: string,
+  message: string
+): void {
+  ctx.issues.push({ path, keyword, message });
+}
+
+function matchesType(type: unknown, value: unknown): boolean {
+  switch (type) {
+    case "null":
+      return value === null;
+    case "boolean":
+      return typeof value === "boolean";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "string":
+      return typeof value === "string";
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return isPlainObject(value);
+    default:
+      // Unknown types are not enforced
+      return true;
+  }
+}
+
+/**
+ * Resolves a local `$ref` (`#` or `#/json/pointer`) against the root schema.
+ */
+function resolveRef(root: JsonSchema, ref: string): JsonSchema | undefined {
+  if (!ref.startsWith("#")) {
+    return undefined;
+  }
+  let target: unknown = root;
+  for (const segment of ref.slice(1).split("/").slice(1)) {
+    const key = decodeURIComponent(segment)
+      .replace(/~1/g, "/")
+      .replace(/~0/g, "~");
+    if (!isPlainObject(target) || !hasOwn(target, key)) {
+      return undefined;
+    }
+    target = target[key];
+  }
+  return isSchema(target) ? target : undefined;
+}
+
+function compilePattern(pattern: string): RegExp | undefined {
+  try {
+    return new RegExp(pattern, "u");
+  } catch {
+    return undefined;
+  }
+}
+
+function escapePointer(segment: string): string {
+  return segment.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+function isSchema(value: unknown): value is JsonSchema {
+  return typeof value === "boolean" || isPlainObject(value);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Own-property check, ignoring keys inherited from `Object.prototype` */
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return (
+      a.length === b.length &&
+      a.every((item, index) => deepEqual(item, b[index]))
+    );
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => hasOwn(b, key) && deepEqual(a[key], b[key]))
+    );
+  }
+  return false;
+}
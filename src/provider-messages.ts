@@ -0,0 +1,409 @@
+import {
+  CallToolResult,
+  EmbeddedResource,
+  GetPromptResult,
+  ImageContent,
+  PromptMessage,
+} from "@modelcontextprotocol/sdk/types.js";
+import { McpHostError, ErrorCodes } from "./errors.js";
+import { Content } from "./types.js";
+import { LlmProvider } from "./providers.js";
+
+/** Content found in tool call results and prompt messages */
+export type MessageContent = Content | EmbeddedResource;
+
+/** A content part of an OpenAI Chat Completions user message */
+export type OpenAIContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } }
+  | {
+      type: "input_audio";
+      input_audio: { data: string; format: "wav" | "mp3" };
+    };
+
+/** A message in the OpenAI Chat Completions `messages` format */
+export type OpenAIMessage =
+  | { role: "user"; content: OpenAIContentPart[] }
+  | { role: "assistant"; content: string }
+  | { role: "tool"; tool_call_id: string; content: string };
+
+/** A content block of an Anthropic Messages API message */
+export type AnthropicContentBlock =
+  | { type: "text"; text: string }
+  | {
+      type: "image";
+      source: { type: "base64"; media_type: string; data: string };
+    };
+
+/** The result of a tool call in the Anthropic Messages API format */
+export interface AnthropicToolResultBlock {
+  type: "tool_result";
+  tool_use_id: string;
+  content: AnthropicContentBlock[];
+  is_error?: boolean;
+}
+
+/** A message in the Anthropic Messages API `messages` format */
+export interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: (AnthropicContentBlock | AnthropicToolResultBlock)[];
+}
+
+/** A part of a Gemini content */
+export type GeminiPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } }
+  | {
+      functionResponse: { name: string; response: Record<string, unknown> };
+    };
+
+/** A message in the Gemini `contents` format */
+export interface GeminiContent {
+  role: "user" | "model";
+  parts: GeminiPart[];
+}
+
+/** Message format of each provider */
+export interface ProviderMessageFormats {
+  openai: OpenAIMessage;
+  anthropic: AnthropicMessage;
+  gemini: GeminiContent;
+}
+
+/** The provider tool call a result answers */
+export interface ProviderToolCall {
+  /** ID of the call, sent back as OpenAI `tool_call_id` or Anthropic `tool_use_id` */
+  id: string;
+  /** Provider tool name the call was made with, sent back to Gemini */
+  name: string;
+}
+
+/**
+ * What to do with content a provider cannot accept where it appears, e.g.
+ * images in OpenAI tool messages or audio for Anthropic:
+ * - "placeholder": Replace it with a text placeholder such as
+ *   `[image/png image omitted]`
+ * - "omit": Drop it
+ * - "error": Throw an McpHostError with code UNSUPPORTED_CONTENT
+ * - A function returning the text to use instead
+ */
+export type UnsupportedContentFallback =
+  | "placeholder"
+  | "omit"
+  | "error"
+  | ((content: MessageContent, provider: LlmProvider) => string);
+
+/** Options for converting results to provider messages */
+export interface MessageConversionOptions {
+  /** Handling of content the provider cannot accept. Defaults to "placeholder". */
+  unsupportedContent?: UnsupportedContentFallback;
+}
+
+/** Where converted content ends up, which decides what a provider accepts */
+type ContentPosition = "tool" | PromptMessage["role"];
+
+/** Image types accepted by each provider */
+const IMAGE_TYPES: Record<LlmProvider, string[]> = {
+  openai: ["image/png", "image/jpeg", "image/gif", "image/webp"],
+  anthropic: ["image/png", "image/jpeg", "image/gif", "image/webp"],
+  gemini: ["image/png", "image/jpeg", "image/webp", "image/heic", "image/heif"],
+};
+
+/** Audio types accepted by each provider */
+const AUDIO_TYPES: Record<LlmProvider, string[]> = {
+  openai: ["audio/wav", "audio/x-wav", "audio/mpeg", "audio/mp3"],
+  anthropic: [],
+  gemini: [
+    "audio/wav",
+    "audio/x-wav",
+    "audio/mpeg",
+    "audio/mp3",
+    "audio/aiff",
+    "audio/aac",
+    "audio/ogg",
+    "audio/flac",
+  ],
+};
+
+/**
+ * Converts a tool call result to the message answering the provider's tool
+ * call: an OpenAI `tool` message, an Anthropic `user` message holding a
+ * `tool_result` block, or a Gemini `user` content holding a
+ * `functionResponse` part.
+ *
+ * `isError` results are sent as Anthropic `is_error` results, as a Gemini
+ * `error` response, and prefixed with "Error: " for OpenAI. Embedded text
+ * resources become text. Content the provider cannot accept in tool results
+ * is handled as configured by `options.unsupportedContent`.
+ *
+ * @throws {McpHostError} With code UNSUPPORTED_CONTENT if the fallback is
+ * "error" and the result holds content the provider cannot accept.
+ *
+ * @example
+ * ```typescript
+ * const result = await host.callTool(serverId, { name: toolName, arguments });
+ * messages.push(
+ *   convertToolResult(result, 'openai', { id: call.id, name: call.function.name })
+ * );
+ * ```
+ */
+export function convertToolResult<P extends LlmProvider>(
+  result: CallToolResult,
+  provider: P,
+  call: ProviderToolCall,
+  options: MessageConversionOptions = {}
+): ProviderMessageFormats[P] {
+  const content = resolveContent(
+    result.content as MessageContent[],
+    provider,
+    "tool",
+    options
+  );
+  const text = joinText(content);
+
+  switch (provider) {
+    case "openai":
+      return {
+        role: "tool",
+        tool_call_id: call.id,
+        content: result.isError ? `Error: ${text}` : text,
+      } as ProviderMessageFormats[P];
+    case "anthropic":
+      return {
+        role: "user",
+        content: [
+          {
+            type: "tool_result",
+            tool_use_id: call.id,
+            content: content.map(toAnthropicBlock),
+            ...(result.isError ? { is_error: true } : {}),
+          },
+        ],
+      } as ProviderMessageFormats[P];
+    default: {
+      const media = content.filter((c) => c.type !== "text");
+      return {
+        role: "user",
+        parts: [
+          {
+            functionResponse: {
+              name: call.name,
+              response: result.isError ? { error: text } : { output: text },
+            },
+          },
+          ...media.map(toGeminiPart),
+        ],
+      } as ProviderMessageFormats[P];
+    }
+  }
+}
+
+/**
+ * Converts the messages of a prompt to a provider's message format, one
+ * provider message per prompt message. Assistant messages become Gemini
+ * `model` messages; messages left empty by the fallback are dropped.
+ *
+ * Embedded text resources become text. Content the provider cannot accept
+ * for the message's role is handled as configured by
+ * `options.unsupportedContent`.
+ *
+ * @throws {McpHostError} With code UNSUPPORTED_CONTENT if the fallback is
+ * "error" and a message holds content the provider cannot accept.
+ */
+export function convertPromptResult<P extends LlmProvider>(
+  result: GetPromptResult,
+  provider: P,
+  options: MessageConversionOptions = {}
+): ProviderMessageFormats[P][] {
+  const messages: ProviderMessageFormats[P][] = [];
+  for (const message of result.messages) {
+    const content = resolveContent(
+      [message.content as MessageContent],
+      provider,
+      message.role,
+      options
+    );
+    if (content.length > 0) {
+      messages.push(formatMessage(provider, message.role, content));
+    }
+  }
+  return messages;
+}
+
+function formatMessage<P extends LlmProvider>(
+  provider: P,
+  role: PromptMessage["role"],
+  content: Content[]
+): ProviderMessageFormats[P] {
+  switch (provider) {
+    case "openai":
+      return (
+        role === "assistant"
+          ? { role, content: joinText(content) }
+          : { role, content: content.map(toOpenAIPart) }
+      ) as ProviderMessageFormats[P];
+    case "anthropic":
+      return {
+        role,
+        content: content.map(toAnthropicBlock),
+      } as ProviderMessageFormats[P];
+    default:
+      return {
+        role: role === "assistant" ? "model" : "user",
+        parts: content.map(toGeminiPart),
+      } as ProviderMessageFormats[P];
+  }
+}
+
+/**
+ * Turns content into content the provider accepts at the given position,
+ * applying the fallback to the rest.
+ */
+function resolveContent(
+  items: MessageContent[],
+  provider: LlmProvider,
+  position: ContentPosition,
+  options: MessageConversionOptions
+): Content[] {
+  const resolved: Content[] = [];
+  for (const item of items) {
+    const content = toContent(item);
+    if (content && accepts(provider, position, content)) {
+      resolved.push(content);
+      continue;
+    }
+    const text = applyFallback(
+      item,
+      provider,
+      options.unsupportedContent ?? "placeholder"
+    );
+    if (text !== undefined) {
+      resolved.push({ type: "text", text });
+    }
+  }
+  return resolved;
+}
+
+/** Unwraps embedded resources holding text, images or audio */
+function toContent(item: MessageContent): Content | undefined {
+  if (item.type !== "resource") {
+    return item.type === "text" ||
+      item.type === "image" ||
+      item.type === "audio"
+      ? item
+      : undefined;
+  }
+  const { resource } = item as EmbeddedResource;
+  if (typeof resource.text === "string") {
+    return { type: "text", text: resource.text };
+  }
+  const mimeType = resource.mimeType ?? "";
+  if (typeof resource.blob === "string" && /^(image|audio)\//.test(mimeType)) {
+    return {
+      type: mimeType.startsWith("image/") ? "image" : "audio",
+      data: resource.blob,
+      mimeType,
+    };
+  }
+  return undefined;
+}
+
+function accepts(
+  provider: LlmProvider,
+  position: ContentPosition,
+  content: Content
+): boolean {
+  switch (content.type) {
+    case "text":
+      return true;
+    case "image":
+      return (
+        IMAGE_TYPES[provider].includes(content.mimeType) &&
+        (provider === "gemini" ||
+          position === "user" ||
+          (provider === "anthropic" && position === "tool"))
+      );
+    default:
+      return (
+        AUDIO_TYPES[provider].includes(content.mimeType) &&
+        (provider === "gemini" || position === "user")
+      );
+  }
+}
+
+function applyFallback(
+  item: MessageContent,
+  provider: LlmProvider,
+  fallback: UnsupportedContentFallback
+): string | undefined {
+  if (typeof fallback === "function") {
+    return fallback(item, provider);
+  }
+  switch (fallback) {
+    case "omit":
+      return undefined;
+    case "error":
+      throw new McpHostError(
+        `Content not supported by ${provider}: ${describeContent(item)}`,
+        ErrorCodes.UNSUPPORTED_CONTENT
+      );
+    default:
+      return `[${describeContent(item)} omitted]`;
+  }
+}
+
+function describeContent(item: MessageContent): string {
+  switch (item.type) {
+    case "image":
+    case "audio":
+      return `${item.mimeType} ${item.type}`;
+    case "resource": {
+      const { uri, mimeType } = (item as EmbeddedResource).resource;
+      return mimeType ? `resource ${uri} (${mimeType})` : `resource ${uri}`;
+    }
+    default:
+      return `${item.type} content`;
+  }
+}
+
+function joinText(content: Content[]): string {
+  return content.flatMap((c) => (c.type === "text" ? [c.text] : [])).join("\n");
+}
+
+function toOpenAIPart(content: Content): OpenAIContentPart {
+  switch (content.type) {
+    case "text":
+      return { type: "text", text: content.text };
+    case "image":
+      return {
+        type: "image_url",
+        image_url: { url: `data:${content.mimeType};base64,${content.data}` },
+      };
+    default:
+      return {
+        type: "input_audio",
+        input_audio: {
+          data: content.data,
+          format: content.mimeType.includes("wav") ? "wav" : "mp3",
+        },
+      };
+  }
+}
+
+/** Audio never reaches Anthropic blocks, it is not accepted */
+function toAnthropicBlock(content: Content): AnthropicContentBlock {
+  if (content.type === "text") {
+    return { type: "text", text: content.text };
+  }
+  const { mimeType, data } = content as ImageContent;
+  return {
+    type: "image",
+    source: { type: "base64", media_type: mimeType, data },
+  };
+}
+
+function toGeminiPart(content: Content): GeminiPart {
+  return content.type === "text"
+    ? { text: content.text }
+    : { inlineData: { mimeType: content.mimeType, data: content.data } };
+}
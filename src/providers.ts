@@ -0,0 +1,219 @@
+import { AggregatedTool } from "./types.js";
+import {
+  JsonSchema,
+  SchemaValidationIssue,
+  normalizeSchema,
+} from "./json-schema.js";
+
+/** LLM providers whose function-calling formats are supported */
+export type LlmProvider = "openai" | "anthropic" | "gemini";
+
+/** A tool in the OpenAI Chat Completions `tools` format */
+export interface OpenAITool {
+  type: "function";
+  function: {
+    name: string;
+    description?: string;
+    parameters: JsonSchema;
+    strict?: boolean;
+  };
+}
+
+/** A tool definition in the Anthropic Messages API `tools` format */
+export interface AnthropicTool {
+  name: string;
+  description?: string;
+  input_schema: JsonSchema;
+  strict?: boolean;
+}
+
+/** A function declaration in the Gemini `functionDeclarations` format */
+export interface GeminiFunctionDeclaration {
+  name: string;
+  description?: string;
+  /** Omitted for tools without parameters, which Gemini expects */
+  parameters?: JsonSchema;
+}
+
+/** Tool format of each provider */
+export interface ProviderToolFormats {
+  openai: OpenAITool;
+  anthropic: AnthropicTool;
+  gemini: GeminiFunctionDeclaration;
+}
+
+/** The aggregated tool a provider tool name refers to */
+export interface ProviderToolReference {
+  /** ID of the server providing the tool */
+  serverId: string;
+  /** The tool's name on its server */
+  toolName: string;
+  /** The tool's `qualifiedName` in the host */
+  qualifiedName: string;
+}
+
+/**
+ * Aggregated tools converted to a provider's format, with the reverse map
+ * used to route the provider's tool calls back to MCP servers.
+ */
+export interface ProviderToolSet<P extends LlmProvider> {
+  /** The provider the tools were converted for */
+  provider: P;
+  /** The tools, in the provider's format */
+  tools: ProviderToolFormats[P][];
+  /** Maps each provider tool name to the aggregated tool it refers to */
+  toolMap: Record<string, ProviderToolReference>;
+  /**
+   * Lossy schema conversions made in strict mode or for Gemini, by provider
+   * tool name. Only tools whose schema lost constraints are listed.
+   */
+  schemaIssues: Record<string, SchemaValidationIssue[]>;
+}
+
+/** Options for converting tools to a provider's format */
+export interface ConvertToolsOptions {
+  /**
+   * Rewrite input schemas with `normalizeSchema` so the provider's strict
+   * mode accepts them: OpenAI and Anthropic tools get strict schemas and
+   * `strict: true`. Defaults to false, copying schemas unchanged. Gemini
+   * schemas are always reduced to its OpenAPI subset.
+   */
+  strict?: boolean;
+}
+
+/** Maximum tool name length accepted by every supported provider */
+const MAX_TOOL_NAME_LENGTH = 64;
+
+/** Characters allowed in tool names, per provider */
+const ILLEGAL_NAME_CHARACTERS: Record<LlmProvider, RegExp> = {
+  openai: /[^a-zA-Z0-9_-]/g,
+  anthropic: /[^a-zA-Z0-9_-]/g,
+  gemini: /[^a-zA-Z0-9_.:-]/g,
+};
+
+/**
+ * Converts aggregated tools to a provider's function-calling format.
+ * Tool names are derived from each tool's `qualifiedName`, made legal for the
+ * provider and unique; `toolMap` maps them back to the MCP tools.
+ * Input schemas are copied unchanged unless `options.strict` is set, except
+ * for Gemini, which only accepts its OpenAPI schema subset.
+ */
+export function convertTools<P extends LlmProvider>(
+  tools: AggregatedTool[],
+  provider: P,
+  options: ConvertToolsOptions = {}
+): ProviderToolSet<P> {
+  const toolMap: Record<string, ProviderToolReference> = {};
+  const schemaIssues: Record<string, SchemaValidationIssue[]> = {};
+  const converted = tools.map((tool) => {
+    const name = uniqueName(
+      toProviderToolName(tool.qualifiedName, provider),
+      toolMap
+    );
+    toolMap[name] = {
+      serverId: tool.serverId,
+      toolName: tool.name,
+      qualifiedName: tool.qualifiedName,
+    };
+    if (!options.strict && provider !== "gemini") {
+      return formatTool(tool, name, provider);
+    }
+    const { schema, issues } = normalizeSchema(
+      tool.inputSchema,
+      provider === "gemini" ? "openapi" : "strict"
+    );
+    if (issues.length > 0) {
+      schemaIssues[name] = issues;
+    }
+    return formatTool(tool, name, provider, schema);
+  });
+  return { provider, tools: converted, toolMap, schemaIssues };
+}
+
+/**
+ * Makes a tool name legal for a provider: illegal characters become `_`,
+ * Gemini names start with a letter or underscore, and names longer than 64
+ * characters are shortened with a hash of the full name to stay distinct.
+ */
+export function toProviderToolName(
+  name: string,
+  provider: LlmProvider
+): string {
+  let legal = name.replace(ILLEGAL_NAME_CHARACTERS[provider], "_") || "_";
+  if (provider === "gemini" && !/^[a-zA-Z_]/.test(legal)) {
+    legal = `_${legal}`;
+  }
+  if (legal.length > MAX_TOOL_NAME_LENGTH) {
+    const hash = hashName(name);
+    legal = `${legal.slice(0, MAX_TOOL_NAME_LENGTH - hash.length - 1)}_${hash}`;
+  }
+  return legal;
+}
+
+/**
+ * Formats a tool for a provider. A normalized `strictSchema` replaces the
+ * copied input schema and marks OpenAI and Anthropic tools as strict.
+ */
+function formatTool<P extends LlmProvider>(
+  tool: AggregatedTool,
+  name: string,
+  provider: P,
+  strictSchema?: JsonSchema
+): ProviderToolFormats[P] {
+  const description = tool.description;
+  const schema =
+    strictSchema ?? (structuredClone(tool.inputSchema) as JsonSchema);
+  const strict = strictSchema ? { strict: true } : {};
+
+  switch (provider) {
+    case "openai":
+      return {
+        type: "function",
+        function: { name, description, parameters: schema, ...strict },
+      } as ProviderToolFormats[P];
+    case "anthropic":
+      return {
+        name,
+        description,
+        input_schema: schema,
+        ...strict,
+      } as ProviderToolFormats[P];
+    default: {
+      const hasParameters =
+        Object.keys(tool.inputSchema.properties ?? {}).length > 0;
+      return {
+        name,
+        description,
+        ...(hasParameters ? { parameters: schema } : {}),
+      } as ProviderToolFormats[P];
+    }
+  }
+}
+
+/**
+ * Appends a counter to names already in use, keeping within the length limit.
+ */
+function uniqueName(
+  name: string,
+  taken: Record<string, ProviderToolReference>
+): string {
+  let candidate = name;
+  for (let counter = 2; candidate in taken; counter++) {
+    const suffix = `_${counter}`;
+    candidate = `${name.slice(
+      0,
+      MAX_TOOL_NAME_LENGTH - suffix.length
+    )}${suffix}`;
+  }
+  return candidate;
+}
+
+/** 32-bit FNV-1a hash of a name, as 8 hex characters */
+function hashName(name: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < name.length; i++) {
+    hash ^= name.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
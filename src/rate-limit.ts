@@ -0,0 +1,84 @@
+import { RateLimit, RateLimitEvent } from "./types.js";
+
+/** Default length of a rate limit interval in milliseconds */
+const DEFAULT_INTERVAL_MS = 1000;
+
+/**
+ * Token bucket enforcing a `RateLimit`: `requests` tokens are added every
+ * `intervalMs`, up to `burst`, and each request takes one.
+ */
+export class TokenBucket {
+  private readonly capacity: number;
+  /** Tokens added per millisecond */
+  private readonly rate: number;
+  private tokens: number;
+  private refilledAt = Date.now();
+
+  constructor(readonly limit: RateLimit) {
+    this.capacity = Math.max(1, limit.burst ?? limit.requests);
+    this.rate = limit.requests / (limit.intervalMs ?? DEFAULT_INTERVAL_MS);
+    this.tokens = this.capacity;
+  }
+
+  /** Milliseconds until a token is available, 0 if one is */
+  waitTime(): number {
+    this.refill();
+    return this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) / this.rate);
+  }
+
+  /** Takes a token; callers check `waitTime()` first */
+  take(): void {
+    this.refill();
+    this.tokens -= 1;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + (now - this.refilledAt) * this.rate
+    );
+    this.refilledAt = now;
+  }
+}
+
+/** The bucket enforcing a server's or a tool's rate limit */
+export interface RateLimitBucket {
+  scope: RateLimitEvent["scope"];
+  bucket: TokenBucket;
+}
+
+/**
+ * Whether a rate limit can be enforced; limits without a positive request
+ * count or interval are ignored.
+ */
+export function isValidRateLimit(
+  limit: RateLimit | undefined
+): limit is RateLimit {
+  return (
+    limit !== undefined &&
+    limit.requests > 0 &&
+    (limit.intervalMs ?? DEFAULT_INTERVAL_MS) > 0
+  );
+}
+
+/**
+ * Resolves after the given time, or rejects with the abort reason when the
+ * signal aborts first.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) {
+    return Promise.reject(signal.reason);
+  }
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
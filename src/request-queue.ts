@@ -0,0 +1,138 @@
+/** Options for running a task through a `RequestQueue` */
+export interface RequestQueueOptions {
+  /** Higher priorities leave the queue first (default: 0) */
+  priority?: number;
+  /** Removes the task from the queue and rejects with the abort reason */
+  signal?: AbortSignal;
+  /** Called once the task has been queued */
+  onQueued?: () => void;
+  /** Called with the time spent waiting when a queued task starts */
+  onDequeued?: (waitMs: number) => void;
+}
+
+/** A task waiting for a free slot */
+interface Waiter {
+  priority: number;
+  enqueuedAt: number;
+  start: () => void;
+  reject: (reason: unknown) => void;
+}
+
+/**
+ * Limits the number of tasks running at once. Tasks beyond the limit wait
+ * in a queue ordered by priority, then by arrival.
+ */
+export class RequestQueue {
+  private running = 0;
+  private readonly waiting: Waiter[] = [];
+
+  /**
+   * @param limit Maximum number of tasks running at once (default: unlimited)
+   */
+  constructor(readonly limit = Infinity) {}
+
+  /** Number of tasks currently running */
+  get active(): number {
+    return this.running;
+  }
+
+  /** Number of tasks waiting for a slot */
+  get queued(): number {
+    return this.waiting.length;
+  }
+
+  /** Time in milliseconds the longest-waiting task has been queued, 0 if none */
+  get oldestWaitMs(): number {
+    if (this.waiting.length === 0) {
+      return 0;
+    }
+    const oldest = Math.min(...this.waiting.map((w) => w.enqueuedAt));
+    return Date.now() - oldest;
+  }
+
+  /**
+   * Runs a task as soon as a slot is free.
+   *
+   * @returns The task's result.
+   */
+  async run<T>(
+    task: () => Promise<T>,
+    options: RequestQueueOptions = {}
+  ): Promise<T> {
+    if (this.running < this.limit) {
+      this.running++;
+    } else {
+      // The finishing task hands its slot over, see release()
+      await this.enqueue(options);
+    }
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  /**
+   * Rejects every queued task with the given reason. Running tasks are not
+   * affected.
+   */
+  clear(reason: unknown): void {
+    for (const waiter of this.waiting.splice(0)) {
+      waiter.reject(reason);
+    }
+  }
+
+  private enqueue(options: RequestQueueOptions): Promise<void> {
+    const { signal } = options;
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        this.remove(waiter);
+        reject(signal?.reason);
+      };
+      const waiter: Waiter = {
+        priority: options.priority ?? 0,
+        enqueuedAt: Date.now(),
+        start: () => {
+          signal?.removeEventListener("abort", onAbort);
+          options.onDequeued?.(Date.now() - waiter.enqueuedAt);
+          resolve();
+        },
+        reject: (reason) => {
+          signal?.removeEventListener("abort", onAbort);
+          reject(reason);
+        },
+      };
+
+      const index = this.waiting.findIndex(
+        (other) => other.priority < waiter.priority
+      );
+      if (index === -1) {
+        this.waiting.push(waiter);
+      } else {
+        this.waiting.splice(index, 0, waiter);
+      }
+      signal?.addEventListener("abort", onAbort, { once: true });
+      options.onQueued?.();
+    });
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next.start();
+    } else {
+      this.running--;
+    }
+  }
+
+  private remove(waiter: Waiter): void {
+    const index = this.waiting.indexOf(waiter);
+    if (index !== -1) {
+      this.waiting.splice(index, 1);
+    }
+  }
+}
@@ -0,0 +1,277 @@
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import {
+  JSONRPCMessage,
+  JSONRPCMessageSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Options for the `StreamableHttpClientTransport`.
+ */
+export interface StreamableHttpClientTransportOptions {
+  /** Extra headers sent with every HTTP request (e.g., for authentication) */
+  headers?: Record<string, string>;
+  /** Session ID to resume, if the server already issued one */
+  sessionId?: string;
+}
+
+/**
+ * Error raised when the server answers a Streamable HTTP request with a
+ * non-success status code.
+ */
+export class StreamableHttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = "StreamableHttpError";
+  }
+}
+
+/** A single event parsed from a `text/event-stream` body */
+interface SseEvent {
+  event: string;
+  data: string;
+  id?: string;
+}
+
+/**
+ * Client transport for Streamable HTTP (MCP 2025-03-26).
+ * Every JSON-RPC message is POSTed to a single endpoint; the server answers
+ * with either a JSON body or an SSE stream. Once initialized, a GET stream is
+ * opened (when the server offers one) to receive server-initiated messages.
+ */
+export class StreamableHttpClientTransport implements Transport {
+  private url: URL;
+  private headers: Record<string, string>;
+  private abortController?: AbortController;
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+  sessionId?: string;
+
+  constructor(url: URL, options?: StreamableHttpClientTransportOptions) {
+    this.url = url;
+    this.headers = options?.headers ?? {};
+    this.sessionId = options?.sessionId;
+  }
+
+  async start(): Promise<void> {
+    if (this.abortController) {
+      throw new Error(
+        "StreamableHttpClientTransport already started! If using Client class, note that connect() calls start() automatically."
+      );
+    }
+    this.abortController = new AbortController();
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    try {
+      const response = await fetch(this.url, {
+        method: "POST",
+        headers: this.buildHeaders({
+          "content-type": "application/json",
+          accept: "application/json, text/event-stream",
+        }),
+        body: JSON.stringify(message),
+        signal: this.abortController?.signal,
+      });
+
+      const sessionId = response.headers.get("mcp-session-id");
+      if (sessionId) {
+        this.sessionId = sessionId;
+      }
+
+      if (!response.ok) {
+        const text = await response.text().catch(() => null);
+        throw new StreamableHttpError(
+          response.status,
+          `Error POSTing to endpoint (HTTP ${response.status}): ${text}`
+        );
+      }
+
+      // 202 Accepted: the message was a notification or response, no body follows
+      if (response.status === 202) {
+        await response.body?.cancel();
+        if (
+          "method" in message &&
+          message.method === "notifications/initialized"
+        ) {
+          void this.openServerStream();
+        }
+        return;
+      }
+
+      const contentType = response.headers.get("content-type") ?? "";
+      if (contentType.includes("text/event-stream")) {
+        // Responses may arrive long after the POST, so the stream is read in the background
+        void this.readEventStream(response);
+      } else if (contentType.includes("application/json")) {
+        const data = await response.json();
+        const messages = Array.isArray(data) ? data : [data];
+        messages.forEach((item) => this.dispatch(item));
+      } else {
+        await response.body?.cancel();
+        throw new Error(`Unexpected content type: ${contentType}`);
+      }
+    } catch (error) {
+      const errorInstance =
+        error instanceof Error ? error : new Error(String(error));
+      this.onerror?.(errorInstance);
+      throw errorInstance;
+    }
+  }
+
+  async close(): Promise<void> {
+    // Ask the server to end the session; servers may not support this
+    if (this.sessionId) {
+      await fetch(this.url, {
+        method: "DELETE",
+        headers: this.buildHeaders({}),
+      })
+        .then((response) => response.body?.cancel())
+        .catch(() => undefined);
+    }
+    this.abortController?.abort();
+    this.onclose?.();
+  }
+
+  private buildHeaders(extra: Record<string, string>): Record<string, string> {
+    const headers: Record<string, string> = { ...this.headers, ...extra };
+    if (this.sessionId) {
+      headers["mcp-session-id"] = this.sessionId;
+    }
+    return headers;
+  }
+
+  /**
+   * Opens the optional GET stream used by the server for requests and
+   * notifications that are not tied to a client request.
+   */
+  private async openServerStream(): Promise<void> {
+    try {
+      const response = await fetch(this.url, {
+        method: "GET",
+        headers: this.buildHeaders({ accept: "text/event-stream" }),
+        signal: this.abortController?.signal,
+      });
+
+      // 405 means the server does not offer a standalone stream
+      if (response.status === 405) {
+        await response.body?.cancel();
+        return;
+      }
+      if (!response.ok) {
+        await response.body?.cancel();
+        throw new StreamableHttpError(
+          response.status,
+          `Failed to open SSE stream (HTTP ${response.status})`
+        );
+      }
+      await this.readEventStream(response);
+    } catch (error) {
+      this.reportStreamError(error);
+    }
+  }
+
+  private async readEventStream(response: Response): Promise<void> {
+    if (!response.body) {
+      return;
+    }
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+        buffer += decoder.decode(value, { stream: true });
+
+        // Events are separated by a blank line
+        let boundary = buffer.search(/\r?\n\r?\n/);
+        while (boundary !== -1) {
+          const chunk = buffer.slice(0, boundary);
+          buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, "");
+          const event = parseSseEvent(chunk);
+          if (event && event.event === "message") {
+            this.dispatchEventData(event.data);
+          }
+          boundary = buffer.search(/\r?\n\r?\n/);
+        }
+      }
+    } catch (error) {
+      this.reportStreamError(error);
+      await reader.cancel().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Dispatches the data of one SSE event. Malformed events are reported and
+   * skipped so the rest of the stream is still read.
+   */
+  private dispatchEventData(data: string): void {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(data);
+    } catch (error) {
+      this.onerror?.(error instanceof Error ? error : new Error(String(error)));
+      return;
+    }
+    this.dispatch(parsed);
+  }
+
+  private dispatch(data: unknown): void {
+    let message: JSONRPCMessage;
+    try {
+      message = JSONRPCMessageSchema.parse(data);
+    } catch (error) {
+      this.onerror?.(error instanceof Error ? error : new Error(String(error)));
+      return;
+    }
+    this.onmessage?.(message);
+  }
+
+  private reportStreamError(error: unknown): void {
+    // Aborts are expected when the transport is closed
+    if (this.abortController?.signal.aborted) {
+      return;
+    }
+    this.onerror?.(error instanceof Error ? error : new Error(String(error)));
+  }
+}
+
+/**
+ * Parses one Server-Sent Events block into its event type, data and ID.
+ * Returns undefined for blocks without data (e.g., comments or keep-alives).
+ */
+function parseSseEvent(chunk: string): SseEvent | undefined {
+  const event: SseEvent = { event: "message", data: "" };
+  const dataLines: string[] = [];
+
+  for (const line of chunk.split(/\r?\n/)) {
+    if (line === "" || line.startsWith(":")) {
+      continue;
+    }
+    const separator = line.indexOf(":");
+    const field = separator === -1 ? line : line.slice(0, separator);
+    let value = separator === -1 ? "" : line.slice(separator + 1);
+    if (value.startsWith(" ")) {
+      value = value.slice(1);
+    }
+
+    if (field === "event") {
+      event.event = value;
+    } else if (field === "data") {
+      dataLines.push(value);
+    } else if (field === "id") {
+      event.id = value;
+    }
+  }
+
+  if (dataLines.length === 0) {
+    return undefined;
+  }
+  event.data = dataLines.join("\n");
+  return event;
+}
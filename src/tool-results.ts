@@ -0,0 +1,43 @@
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { SchemaValidationError, ErrorCodes } from "./errors.js";
+import { formatValidationIssues } from "./json-schema.js";
+import { StructuredCallToolResult } from "./types.js";
+
+/**
+ * Returns the structured output of a tool call result, typed as `T`.
+ *
+ * Results validated against the tool's `outputSchema` (see
+ * `McpHostConfig.validation`) are only returned if they matched, so the
+ * shape can be trusted. Results that were not validated are returned as is.
+ *
+ * @returns The structured content, or undefined if the tool returned none.
+ *
+ * @throws {SchemaValidationError} With code INVALID_STRUCTURED_CONTENT if the
+ * result was flagged as not matching the tool's `outputSchema`.
+ *
+ * @example
+ * ```typescript
+ * const result = await host.callTool('weather', {
+ *   name: 'forecast',
+ *   arguments: { city: 'Paris' },
+ * });
+ * const forecast = getStructuredContent<{ temperature: number }>(result);
+ * console.log(forecast?.temperature);
+ * ```
+ */
+export function getStructuredContent<T = Record<string, unknown>>(
+  result: CallToolResult
+): T | undefined {
+  const { structuredContent, structuredContentValidation } =
+    result as StructuredCallToolResult<T>;
+  if (structuredContentValidation && !structuredContentValidation.valid) {
+    throw new SchemaValidationError(
+      `Structured content does not match the tool's outputSchema: ${formatValidationIssues(
+        structuredContentValidation.issues
+      )}`,
+      ErrorCodes.INVALID_STRUCTURED_CONTENT,
+      structuredContentValidation.issues
+    );
+  }
+  return structuredContent;
+}
@@ -19,12 +19,17 @@ import {
   TextContent,
   ImageContent,
   AudioContent,
+  LoggingLevel,
 } from "@modelcontextprotocol/sdk/types.js";
 import {
   Client,
   ClientOptions,
 } from "@modelcontextprotocol/sdk/client/index.js";
 import { SSEClientTransportOptions } from "@modelcontextprotocol/sdk/client/sse.js";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { JsonSchema, SchemaValidationIssue } from "./json-schema.js";
 
 /**
  * Base configuration for a server connection.
@@ -36,13 +41,51 @@ interface BaseServerConfig {
   /** Optional friendly name for the server */
   name?: string;
   /** Transport type to use for server connection */
-  transport: "stdio" | "sse" | "websocket" | "streamable-http";
+  transport:
+    | "stdio"
+    | "sse"
+    | "websocket"
+    | "streamable-http"
+    | "http-auto"
+    | "custom"
+    | "in-process";
   /** Optional environment variables for stdio transport */
   env?: Record<string, string>;
   /** Optional working directory for stdio transport */
   cwd?: string;
   /** Optional configuration for the MCP Client instance for this server */
   clientOptions?: Partial<ClientOptions>;
+  /** Optional policy for automatically reconnecting after the connection drops */
+  reconnect?: ReconnectPolicy;
+  /** Optional roots exposed to this server only, instead of the host-wide roots */
+  roots?: Root[];
+  /**
+   * Optional minimum level of the log messages the server should send,
+   * requested with `logging/setLevel` on every connection
+   */
+  logLevel?: LoggingLevel;
+  /**
+   * Optional maximum number of `callTool`, `readResource` and `getPrompt`
+   * requests in flight to this server; further requests wait in a queue.
+   * Overrides `McpHostConfig.maxConcurrentRequests`.
+   */
+  maxConcurrentRequests?: number;
+}
+
+/**
+ * Policy controlling automatic reconnection of a dropped server.
+ * Delays grow exponentially from `baseDelayMs` up to `maxDelayMs`,
+ * with random jitter applied to each attempt.
+ */
+export interface ReconnectPolicy {
+  /** Maximum number of reconnection attempts before giving up (default: 5) */
+  maxAttempts?: number;
+  /** Delay in milliseconds before the first attempt (default: 1000) */
+  baseDelayMs?: number;
+  /** Upper bound in milliseconds for the delay between attempts (default: 30000) */
+  maxDelayMs?: number;
+  /** Jitter factor between 0 and 1 applied to each delay (default: 0.2) */
+  jitter?: number;
 }
 
 /**
@@ -96,6 +139,56 @@ export interface StreamableHttpServerConfig extends BaseServerConfig {
   headers?: Record<string, string>;
 }
 
+/**
+ * Server configuration for automatic HTTP transport negotiation.
+ * Tries Streamable HTTP first and falls back to the deprecated SSE transport
+ * if the server rejects the initialize request with 400, 404 or 405.
+ */
+export interface HttpAutoServerConfig extends BaseServerConfig {
+  /** Transport type must be "http-auto" */
+  transport: "http-auto";
+  /** The MCP endpoint URL, used for both Streamable HTTP and SSE */
+  url: string;
+  /** Optional headers to include in requests (e.g., for authentication) */
+  headers?: Record<string, string>;
+  /** Optional configuration for the SSE transport, if it is used */
+  sseOptions?: SSEClientTransportOptions;
+}
+
+/**
+ * Factory creating the SDK transport for a custom server connection.
+ * Receives the server configuration so it can read `options`.
+ */
+export type TransportFactory = (
+  serverConfig: CustomServerConfig
+) => Transport | Promise<Transport>;
+
+/**
+ * Server configuration for a custom, user-provided transport.
+ * Used for transports the host does not build in (e.g., IPC or Unix sockets).
+ */
+export interface CustomServerConfig extends BaseServerConfig {
+  /** Transport type must be "custom" */
+  transport: "custom";
+  /** Factory creating the transport; takes precedence over `transportName` */
+  createTransport?: TransportFactory;
+  /** Name of a factory registered on the host with `registerTransport` */
+  transportName?: string;
+  /** Optional free-form options for the factory */
+  options?: Record<string, unknown>;
+}
+
+/**
+ * Server configuration for an MCP server running in the same Node process.
+ * The server is connected to the host through a linked in-memory transport pair.
+ */
+export interface InProcessServerConfig extends BaseServerConfig {
+  /** Transport type must be "in-process" */
+  transport: "in-process";
+  /** The SDK server instance to embed (an `McpServer` or a low-level `Server`) */
+  server: McpServer | Server;
+}
+
 /**
  * Union type representing all possible server configuration types.
  * Allows specifying different connection methods for MCP servers.
@@ -104,7 +197,49 @@ export type ServerConfig =
   | StdioServerConfig
   | SseServerConfig
   | WebSocketServerConfig
-  | StreamableHttpServerConfig;
+  | StreamableHttpServerConfig
+  | HttpAutoServerConfig
+  | CustomServerConfig
+  | InProcessServerConfig;
+
+/**
+ * Connection state of a configured server.
+ * - `idle`: configured but not yet connected
+ * - `connecting`: initial connection in progress
+ * - `connected`: connected and initialized
+ * - `reconnecting`: dropped and waiting for or running a reconnection attempt
+ * - `failed`: connection failed or dropped and will not be retried
+ * - `stopped`: disconnected on purpose (host stopped or server restarted/removed)
+ */
+export type ServerConnectionState =
+  | "idle"
+  | "connecting"
+  | "connected"
+  | "reconnecting"
+  | "failed"
+  | "stopped";
+
+/**
+ * Snapshot of a configured server's connection status.
+ */
+export interface ServerStatus {
+  /** Identifier of the server */
+  serverId: string;
+  /** Current connection state */
+  state: ServerConnectionState;
+  /** When the server entered its current state */
+  since: Date;
+  /** Number of connection attempts in the current connection cycle */
+  attempts: number;
+  /** Transport used by the current or last connection (the negotiated one for "http-auto") */
+  transport?: string;
+  /** When the server last became connected */
+  connectedAt?: Date;
+  /** The most recent connection error, if any */
+  lastError?: Error;
+  /** When the most recent connection error occurred */
+  lastErrorAt?: Date;
+}
 
 /**
  * Configuration for the entire MCP Client Host.
@@ -117,6 +252,109 @@ export interface McpHostConfig {
   hostCapabilities?: ClientCapabilities;
   /** Information identifying the host application */
   hostInfo: Implementation;
+  /** Optional limits applied when following `nextCursor` in list requests */
+  pagination?: PaginationOptions;
+  /** Optional settings for deriving each tool's `qualifiedName` */
+  toolNaming?: ToolNamingOptions;
+  /** Optional defaults for auto-routed requests (`call`, `read`, `prompt`) */
+  routing?: RoutingOptions;
+  /** Optional validation of requests against the schemas servers declare */
+  validation?: ValidationOptions;
+  /**
+   * Optional default for `ServerConfig.maxConcurrentRequests`, applied to
+   * servers that set none (default: unlimited)
+   */
+  maxConcurrentRequests?: number;
+  /** Optional token-bucket rate limits per server and per tool */
+  rateLimits?: RateLimitOptions;
+}
+
+/**
+ * Opt-in checks the host performs against the schemas servers declare.
+ */
+export interface ValidationOptions {
+  /**
+   * Validate tool call arguments against the tool's `inputSchema` before the
+   * call is sent (default: false). Invalid calls are rejected with an
+   * INVALID_TOOL_ARGUMENTS error listing each failure.
+   */
+  toolArguments?: boolean;
+  /**
+   * What to do when a tool declaring an `outputSchema` returns
+   * `structuredContent` that does not match it, or none at all (default: "flag").
+   */
+  structuredContent?: StructuredContentValidation;
+}
+
+/**
+ * Handling of tool results whose `structuredContent` does not match the
+ * tool's `outputSchema`. Results flagged `isError` are never checked.
+ * - `"flag"`: return the result with `structuredContentValidation` set (default)
+ * - `"raise"`: throw an INVALID_STRUCTURED_CONTENT error
+ * - `"off"`: do not validate
+ */
+export type StructuredContentValidation = "flag" | "raise" | "off";
+
+/**
+ * Outcome of validating a tool result's `structuredContent` against the
+ * tool's `outputSchema`.
+ */
+export interface StructuredContentValidationResult {
+  /** Whether the structured content matches the output schema */
+  valid: boolean;
+  /** The validation issues, empty if valid */
+  issues: SchemaValidationIssue[];
+}
+
+/**
+ * A tool call result with typed structured output.
+ * Use `getStructuredContent` to read the structured output only if it is valid.
+ */
+export type StructuredCallToolResult<T = Record<string, unknown>> =
+  CallToolResult & {
+    /** Structured output of the tool, if it returned any */
+    structuredContent?: T;
+    /** Set when the tool declares an `outputSchema` and the result was validated */
+    structuredContentValidation?: StructuredContentValidationResult;
+  };
+
+/**
+ * Limits for paginated `tools/list`, `resources/list`,
+ * `resources/templates/list` and `prompts/list` requests.
+ * Listing stops at whichever limit is reached first; truncation is logged.
+ */
+export interface PaginationOptions {
+  /** Maximum number of pages fetched per list and server (default: 100) */
+  maxPages?: number;
+  /** Maximum number of items kept per list and server (default: 10000) */
+  maxItems?: number;
+}
+
+/**
+ * How a tool's `qualifiedName` is derived from its server ID and name.
+ * - `"prefix"`: `<serverId><separator><toolName>` (default)
+ * - `"suffix"`: `<toolName><separator><serverId>`
+ * - `"error-on-conflict"`: the bare tool name; a tool whose name is already
+ *   taken by another server is rejected with a TOOL_NAME_CONFLICT error,
+ *   and added once that server's tool goes away
+ * - a function returning the qualified name
+ */
+export type ToolNamingStrategy =
+  | "prefix"
+  | "suffix"
+  | "error-on-conflict"
+  | ((serverId: string, toolName: string) => string);
+
+/**
+ * Options controlling the qualified names of aggregated tools.
+ * Qualified names are unique across servers; a tool whose qualified name is
+ * already taken by another server is left out of the aggregated list.
+ */
+export interface ToolNamingOptions {
+  /** Naming strategy (default: "prefix") */
+  strategy?: ToolNamingStrategy;
+  /** Separator used by the "prefix" and "suffix" strategies (default: "__") */
+  separator?: string;
 }
 
 /**
@@ -126,8 +364,12 @@ export interface McpHostConfig {
 export interface AggregatedTool extends Tool {
   /** Identifier of the server providing this tool */
   serverId: string;
+  /** Name that identifies the tool uniquely across all servers */
+  qualifiedName: string;
   /** Optional annotations describing tool behavior */
   annotations?: ToolAnnotations;
+  /** Optional JSON Schema of the tool's `structuredContent` */
+  outputSchema?: JsonSchema;
 }
 
 /**
@@ -159,6 +401,25 @@ export interface AggregatedPrompt extends Prompt {
   serverId: string;
 }
 
+/**
+ * Changes to one aggregated list for a single server.
+ * Entries are matched by their aggregation key (e.g., tool name or resource URI).
+ */
+export interface CapabilityChanges<T> {
+  /** Entries that were not listed before */
+  added: T[];
+  /** Entries that are no longer listed */
+  removed: T[];
+  /** Entries whose definition changed, with their old and new versions */
+  changed: Array<{ previous: T; current: T }>;
+}
+
+/**
+ * Changes to an aggregated list, keyed by server ID.
+ * Servers without changes are omitted.
+ */
+export type CapabilityDiff<T> = Record<string, CapabilityChanges<T>>;
+
 /**
  * Event types emitted by the McpClientHost.
  * Defines the structure and payload of various host events.
@@ -182,12 +443,64 @@ export type McpHostEvents = {
    */
   serverError: [serverId: string, error: Error];
 
+  /**
+   * Fired whenever a server's connection status changes.
+   * Provides the server ID, the new status, and the previous state.
+   */
+  serverStatusChanged: [
+    serverId: string,
+    status: ServerStatus,
+    previousState: ServerConnectionState
+  ];
+
+  /**
+   * Fired when a server's configuration is removed with `removeServer`,
+   * after its final status change to "stopped". Provides the server ID.
+   */
+  serverRemoved: [serverId: string];
+
+  /**
+   * Fired when a reconnection attempt is scheduled for a dropped server.
+   * Provides the server ID, the attempt number, and the delay before the attempt.
+   */
+  serverReconnecting: [serverId: string, attempt: number, delayMs: number];
+
+  /**
+   * Fired when a dropped server has been reconnected and its capabilities restored.
+   * Provides the server ID and the number of attempts it took.
+   */
+  serverReconnected: [serverId: string, attempts: number];
+
   /**
    * Fired when the available capabilities (tools, resources, prompts) change.
    * No arguments are passed with this event.
    */
   capabilitiesUpdated: [];
 
+  /**
+   * Fired when tools are added, removed or changed.
+   * Provides the changes keyed by server ID, for incremental updates.
+   */
+  toolsChanged: [diff: CapabilityDiff<AggregatedTool>];
+
+  /**
+   * Fired when resources are added, removed or changed.
+   * Provides the changes keyed by server ID, for incremental updates.
+   */
+  resourcesChanged: [diff: CapabilityDiff<AggregatedResource>];
+
+  /**
+   * Fired when resource templates are added, removed or changed.
+   * Provides the changes keyed by server ID, for incremental updates.
+   */
+  resourceTemplatesChanged: [diff: CapabilityDiff<AggregatedResourceTemplate>];
+
+  /**
+   * Fired when prompts are added, removed or changed.
+   * Provides the changes keyed by server ID, for incremental updates.
+   */
+  promptsChanged: [diff: CapabilityDiff<AggregatedPrompt>];
+
   /**
    * Fired when a resource that has been subscribed to is updated.
    * Provides the server ID and the URI of the updated resource.
@@ -204,6 +517,30 @@ export type McpHostEvents = {
     callback: (result: CreateMessageResult | McpError) => void
   ];
 
+  /**
+   * Fired for every log message sent by a server.
+   * Provides the server ID, the level, the optional logger name and the data as sent.
+   */
+  serverLog: [entry: ServerLogEntry];
+
+  /**
+   * Fired when a request has to wait because its server reached
+   * `maxConcurrentRequests`.
+   */
+  requestQueued: [event: RequestQueueEvent];
+
+  /**
+   * Fired when a queued request leaves the queue and is sent.
+   * Provides the time it spent waiting.
+   */
+  requestDequeued: [event: RequestQueueEvent];
+
+  /**
+   * Fired each time a rate limit holds back or rejects a request.
+   * Provides the limit reached and the time until it allows the request.
+   */
+  rateLimited: [event: RateLimitEvent];
+
   /**
    * Fired for internal logs and logs forwarded from connected servers.
    * Provides the log level, message, and optional additional data.
@@ -271,11 +608,177 @@ export type McpRequestOptions = {
   resetTimeoutOnProgress?: boolean;
   /** Optional maximum total timeout for the request */
   maxTotalTimeout?: number;
+  /**
+   * Position in the server's request queue when `maxConcurrentRequests` is
+   * reached: higher priorities are sent first, equal priorities in arrival
+   * order (default: 0)
+   */
+  priority?: number;
+  /** Overrides the configured behavior when a rate limit is reached */
+  rateLimit?: RateLimitBehavior;
 };
 
+/**
+ * What a request does when a rate limit is reached:
+ * - `"wait"`: wait until the limit allows it (default)
+ * - `"fail"`: throw an McpHostError with code RATE_LIMITED
+ */
+export type RateLimitBehavior = "wait" | "fail";
+
+/**
+ * Token-bucket rate limit: `requests` tokens are added every `intervalMs`,
+ * up to `burst`, and each request takes one.
+ */
+export interface RateLimit {
+  /** Requests allowed per interval */
+  requests: number;
+  /** Length of the interval in milliseconds (default: 1000) */
+  intervalMs?: number;
+  /** Requests that may be sent at once after an idle period (default: `requests`) */
+  burst?: number;
+  /** Overrides `RateLimitOptions.onLimit` for this limit */
+  onLimit?: RateLimitBehavior;
+}
+
+/**
+ * Rate limits applied by the host, set in `McpHostConfig.rateLimits`.
+ */
+export interface RateLimitOptions {
+  /** Limits on the `callTool`, `readResource` and `getPrompt` requests sent to a server, by server ID */
+  servers?: Record<string, RateLimit>;
+  /**
+   * Limits on the calls of a tool, by `qualifiedName` or tool name. A tool
+   * name applies to every server providing the tool, each with its own bucket.
+   */
+  tools?: Record<string, RateLimit>;
+  /** Behavior when a limit is reached (default: "wait") */
+  onLimit?: RateLimitBehavior;
+}
+
+/**
+ * A request held back or rejected by a rate limit.
+ */
+export interface RateLimitEvent {
+  /** ID of the server the request is sent to */
+  serverId: string;
+  /** The request's method, e.g. `tools/call` */
+  method: string;
+  /** The tool called, for `tools/call` requests */
+  toolName?: string;
+  /** Whether the server's or the tool's limit was reached */
+  scope: "server" | "tool";
+  /** Time until the limit allows the request, in milliseconds */
+  retryAfterMs: number;
+  /** Whether the request waits or failed */
+  action: RateLimitBehavior;
+}
+
+/**
+ * Snapshot of a server's request queue, see `maxConcurrentRequests`.
+ */
+export interface RequestQueueStatus {
+  /** ID of the server */
+  serverId: string;
+  /** Requests currently in flight */
+  active: number;
+  /** Requests waiting for a free slot */
+  queued: number;
+  /** The configured limit, undefined if unlimited */
+  maxConcurrentRequests?: number;
+  /** How long the oldest queued request has been waiting, in milliseconds */
+  oldestWaitMs: number;
+}
+
+/**
+ * A request entering or leaving a server's request queue.
+ */
+export interface RequestQueueEvent {
+  /** ID of the server the request is sent to */
+  serverId: string;
+  /** The request's method, e.g. `tools/call` */
+  method: string;
+  /** Requests left waiting for the server after this event */
+  queueDepth: number;
+  /** Time spent in the queue in milliseconds, 0 when entering it */
+  waitMs: number;
+}
+
 // Maintain backward compatibility with existing code
 export type RequestOptions = McpRequestOptions;
 
+/**
+ * How an auto-routed request picks a server when several match equally well.
+ * - `"first"`: use the first matching server (default)
+ * - `"error"`: throw an AMBIGUOUS_ROUTE error
+ * - `"prefer-list"`: use the matching server listed first in `preferredServers`,
+ *   falling back to the first matching server if none is listed
+ */
+export type AmbiguityPolicy = "first" | "error" | "prefer-list";
+
+/**
+ * Options for auto-routed requests, set host-wide in `McpHostConfig.routing`
+ * or per request.
+ */
+export interface RoutingOptions {
+  /** Policy applied when several servers match equally well (default: "first") */
+  ambiguity?: AmbiguityPolicy;
+  /** Server IDs in order of preference, used by the "prefer-list" policy */
+  preferredServers?: string[];
+}
+
+/**
+ * Request options for auto-routed requests.
+ */
+export type RoutedRequestOptions = McpRequestOptions & RoutingOptions;
+
+/**
+ * Result of an auto-routed request, with the server that handled it.
+ */
+export interface RoutedResult<T> {
+  /** ID of the server the request was routed to */
+  serverId: string;
+  /** The server's result */
+  result: T;
+}
+
+/**
+ * A log message sent by a server through `notifications/message`.
+ */
+export interface ServerLogEntry {
+  /** ID of the server that sent the message */
+  serverId: string;
+  /** Severity of the message */
+  level: LoggingLevel;
+  /** Optional name of the logger that issued the message */
+  logger?: string;
+  /** The logged data, any JSON value */
+  data: unknown;
+}
+
+/**
+ * Argument completion suggestions, normalized from a server's
+ * `completion/complete` result.
+ */
+export interface CompletionSuggestions {
+  /** Suggested values, deduplicated and in the server's order */
+  values: string[];
+  /** Total number of matching values, if the server reported it */
+  total?: number;
+  /** Whether more values exist than were returned */
+  hasMore: boolean;
+}
+
+/**
+ * Options for `setRoots`.
+ */
+export interface SetRootsOptions {
+  /**
+   * Restricts the roots to these servers. Omit to update the host-wide roots,
+   * which apply to every server without scoped roots.
+   */
+  serverIds?: string[];
+}
+
 /**
  * Represents the capabilities of a server.
  * Defines what features and operations a server supports.
@@ -327,6 +830,7 @@ export type {
   TextContent,
   ImageContent,
   AudioContent,
+  LoggingLevel,
 };
 
 // --- NEW: Define Content union including Audio ---
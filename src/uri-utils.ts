@@ -46,14 +46,16 @@ export function resolveResourceServer(
     return results.sort((a, b) => b.confidence - a.confidence);
   }
 
-  // Check for template matches
+  // Check for template matches, ranked by how specific the template is
   for (const template of templates) {
-    // Simplified template matching: check if URI follows the template pattern
-    if (template.uriTemplate && canMatchTemplate(uri, template.uriTemplate)) {
+    if (
+      template.uriTemplate &&
+      matchUriTemplate(template.uriTemplate, uri) !== undefined
+    ) {
       results.push({
         serverId: template.serverId,
         matchType: "template",
-        confidence: 0.8, // 80% confidence for template match
+        confidence: getTemplateConfidence(template.uriTemplate, uri),
       });
     }
   }
@@ -135,12 +137,459 @@ export function resolvePromptServer(
 }
 
 /**
- * Helper function to check if a URI can match a template pattern.
- * This is a simplified implementation - you may need to enhance this
- * based on your actual template format and matching logic.
+ * Values accepted when expanding a URI template. Undefined and null values,
+ * empty lists and empty maps are treated as undefined, as in RFC 6570.
  */
-function canMatchTemplate(uri: string, template: string): boolean {
-  // Very basic example: Replace {param} placeholders with .* for regex matching
-  const regex = new RegExp("^" + template.replace(/\{[^}]+\}/g, ".*") + "$");
-  return regex.test(uri);
+export type TemplateVariableValue =
+  | string
+  | number
+  | boolean
+  | Array<string | number | boolean>
+  | Record<string, string | number | boolean>
+  | undefined
+  | null;
+
+/**
+ * Variables bound by matching a URI against a template.
+ * Lists and exploded maps are returned as arrays and objects.
+ */
+export type TemplateVariables = Record<
+  string,
+  string | string[] | Record<string, string>
+>;
+
+/**
+ * A resource template that matches a URI, with the variables it binds.
+ */
+export interface ResourceTemplateMatch {
+  /** The ID of the server providing the template */
+  serverId: string;
+  /** The matching template */
+  template: AggregatedResourceTemplate;
+  /** Variables bound by the match */
+  variables: TemplateVariables;
+  /** Number of literal characters in the template; higher is more specific */
+  specificity: number;
+}
+
+/** Expansion rules of an RFC 6570 expression operator */
+interface TemplateOperator {
+  first: string;
+  separator: string;
+  named: boolean;
+  ifEmpty: string;
+  allowReserved: boolean;
+  /** Regex source matching the whole expanded expression */
+  pattern: string;
+}
+
+const TEMPLATE_OPERATORS: Record<string, TemplateOperator> = {
+  "": {
+    first: "",
+    separator: ",",
+    named: false,
+    ifEmpty: "",
+    allowReserved: false,
+    pattern: "[^/?#&]*?",
+  },
+  "+": {
+    first: "",
+    separator: ",",
+    named: false,
+    ifEmpty: "",
+    allowReserved: true,
+    pattern: ".*?",
+  },
+  "#": {
+    first: "#",
+    separator: ",",
+    named: false,
+    ifEmpty: "",
+    allowReserved: true,
+    pattern: "(?:#.*?)?",
+  },
+  ".": {
+    first: ".",
+    separator: ".",
+    named: false,
+    ifEmpty: "",
+    allowReserved: false,
+    pattern: "(?:\\.[^/?#]*?)?",
+  },
+  "/": {
+    first: "/",
+    separator: "/",
+    named: false,
+    ifEmpty: "",
+    allowReserved: false,
+    pattern: "(?:/[^?#]*?)?",
+  },
+  ";": {
+    first: ";",
+    separator: ";",
+    named: true,
+    ifEmpty: "",
+    allowReserved: false,
+    pattern: "(?:;[^/?#]*?)?",
+  },
+  "?": {
+    first: "?",
+    separator: "&",
+    named: true,
+    ifEmpty: "=",
+    allowReserved: false,
+    pattern: "(?:\\?[^#]*?)?",
+  },
+  "&": {
+    first: "&",
+    separator: "&",
+    named: true,
+    ifEmpty: "=",
+    allowReserved: false,
+    pattern: "(?:&[^#]*?)?",
+  },
+};
+
+/** A variable reference inside an expression, e.g. `path*` or `id:3` */
+interface VariableSpec {
+  name: string;
+  explode: boolean;
+  prefix?: number;
+}
+
+/** A template split into literal text and `{...}` expressions */
+type TemplatePart =
+  | { literal: string }
+  | { operator: TemplateOperator; variables: VariableSpec[] };
+
+function parseTemplate(template: string): TemplatePart[] {
+  const parts: TemplatePart[] = [];
+  const expression = /\{([^}]*)\}/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = expression.exec(template)) !== null) {
+    if (match.index > lastIndex) {
+      parts.push({ literal: template.slice(lastIndex, match.index) });
+    }
+    let body = match[1];
+    const operatorChar = /^[+#./;?&]/.test(body) ? body[0] : "";
+    body = body.slice(operatorChar.length);
+    const variables = body
+      .split(",")
+      .filter((spec) => spec.length > 0)
+      .map((spec): VariableSpec => {
+        if (spec.endsWith("*")) {
+          return { name: spec.slice(0, -1), explode: true };
+        }
+        const [name, prefix] = spec.split(":");
+        return {
+          name,
+          explode: false,
+          prefix: prefix !== undefined ? Number(prefix) : undefined,
+        };
+      });
+    parts.push({ operator: TEMPLATE_OPERATORS[operatorChar], variables });
+    lastIndex = expression.lastIndex;
+  }
+  if (lastIndex < template.length) {
+    parts.push({ literal: template.slice(lastIndex) });
+  }
+  return parts;
+}
+
+function encodeTemplateValue(value: string, allowReserved: boolean): string {
+  if (!allowReserved) {
+    return encodeURIComponent(value).replace(
+      /[!'()*]/g,
+      (char) => "%" + char.charCodeAt(0).toString(16).toUpperCase()
+    );
+  }
+  // Reserved characters and existing percent-encoded triplets pass through
+  return value
+    .split(/(%[0-9A-Fa-f]{2})/)
+    .map((chunk, i) =>
+      i % 2 === 1
+        ? chunk
+        : encodeURI(chunk).replace(/%5B/g, "[").replace(/%5D/g, "]")
+    )
+    .join("");
+}
+
+function decodeTemplateValue(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Expands an RFC 6570 URI template (levels 1 to 4) with the given variables.
+ *
+ * @example
+ * ```typescript
+ * expandResourceTemplate("file:///{+path}{?version}", {
+ *   path: "docs/readme.md",
+ *   version: 2,
+ * });
+ * // => "file:///docs/readme.md?version=2"
+ * ```
+ */
+export function expandResourceTemplate(
+  template: string,
+  variables: Record<string, TemplateVariableValue>
+): string {
+  return parseTemplate(template)
+    .map((part) => {
+      if ("literal" in part) {
+        return part.literal;
+      }
+      const { operator } = part;
+      const encode = (value: string | number | boolean) =>
+        encodeTemplateValue(String(value), operator.allowReserved);
+      const named = (name: string, value: string) =>
+        value === "" ? name + operator.ifEmpty : `${name}=${value}`;
+
+      const expanded: string[] = [];
+      for (const spec of part.variables) {
+        const value = variables[spec.name];
+        if (value === undefined || value === null) {
+          continue;
+        }
+
+        if (Array.isArray(value) || typeof value === "object") {
+          const pairs: Array<[string, string | number | boolean]> =
+            Array.isArray(value)
+              ? value.map((item) => ["", item])
+              : Object.entries(value);
+          if (pairs.length === 0) {
+            continue;
+          }
+          const isMap = !Array.isArray(value);
+
+          if (spec.explode) {
+            expanded.push(
+              pairs
+                .map(([key, item]) => {
+                  if (isMap) {
+                    return named(encode(key), encode(item));
+                  }
+                  return operator.named
+                    ? named(spec.name, encode(item))
+                    : encode(item);
+                })
+                .join(operator.separator)
+            );
+          } else {
+            const joined = pairs
+              .flatMap(([key, item]) =>
+                isMap ? [encode(key), encode(item)] : [encode(item)]
+              )
+              .join(",");
+            expanded.push(operator.named ? named(spec.name, joined) : joined);
+          }
+          continue;
+        }
+
+        let text = String(value);
+        if (spec.prefix !== undefined) {
+          text = Array.from(text).slice(0, spec.prefix).join("");
+        }
+        expanded.push(
+          operator.named ? named(spec.name, encode(text)) : encode(text)
+        );
+      }
+
+      return expanded.length > 0
+        ? operator.first + expanded.join(operator.separator)
+        : "";
+    })
+    .join("");
+}
+
+/**
+ * Matches a URI against an RFC 6570 URI template and returns the variables
+ * it binds, or undefined if the URI does not match.
+ * Matching inverts expansion on a best-effort basis: lists are recognized by
+ * their separators, and `name=value` pairs of exploded named expressions
+ * that do not belong to a listed variable are bound as a map.
+ *
+ * @example
+ * ```typescript
+ * matchUriTemplate("repo://{owner}/{repo}/issues{?state}", "repo://acme/app/issues?state=open");
+ * // => { owner: "acme", repo: "app", state: "open" }
+ * ```
+ */
+export function matchUriTemplate(
+  template: string,
+  uri: string
+): TemplateVariables | undefined {
+  const parts = parseTemplate(template);
+  const source = parts
+    .map((part) =>
+      "literal" in part
+        ? part.literal.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+        : `(${part.operator.pattern})`
+    )
+    .join("");
+  const match = new RegExp(`^${source}$`).exec(uri);
+  if (!match) {
+    return undefined;
+  }
+
+  const variables: TemplateVariables = {};
+  let group = 1;
+  for (const part of parts) {
+    if ("literal" in part) {
+      continue;
+    }
+    const text = match[group++];
+    if (!bindExpression(part.operator, part.variables, text, variables)) {
+      return undefined;
+    }
+  }
+  return variables;
+}
+
+/**
+ * Binds the variables of one expression from its expanded text.
+ * Returns false if the text cannot have been produced by the expression.
+ */
+function bindExpression(
+  operator: TemplateOperator,
+  specs: VariableSpec[],
+  text: string,
+  variables: TemplateVariables
+): boolean {
+  if (text === "") {
+    return true;
+  }
+  if (!text.startsWith(operator.first)) {
+    return false;
+  }
+  const body = text.slice(operator.first.length);
+  // Commas separate list items, except where reserved characters are allowed
+  const toValue = (raw: string): string | string[] =>
+    raw.includes(",") && !operator.allowReserved
+      ? raw.split(",").map(decodeTemplateValue)
+      : decodeTemplateValue(raw);
+
+  // A single simple variable takes the whole expansion, but never more than
+  // one path segment
+  if (
+    specs.length === 1 &&
+    !specs[0].explode &&
+    !operator.named &&
+    operator.separator !== "/"
+  ) {
+    variables[specs[0].name] = toValue(body);
+    return true;
+  }
+
+  const items = body.split(operator.separator);
+
+  if (operator.named) {
+    const unclaimed: Record<string, string> = {};
+    const byName = new Map<string, string[]>();
+    for (const item of items) {
+      const separator = item.indexOf("=");
+      const name = separator === -1 ? item : item.slice(0, separator);
+      const value = separator === -1 ? "" : item.slice(separator + 1);
+      if (specs.some((spec) => spec.name === name)) {
+        byName.set(name, [...(byName.get(name) ?? []), value]);
+      } else {
+        unclaimed[decodeTemplateValue(name)] = decodeTemplateValue(value);
+      }
+    }
+    for (const spec of specs) {
+      const values = byName.get(spec.name);
+      if (values && spec.explode) {
+        variables[spec.name] = values.map(decodeTemplateValue);
+      } else if (values) {
+        variables[spec.name] = toValue(values[0]);
+      } else if (spec.explode && Object.keys(unclaimed).length > 0) {
+        variables[spec.name] = { ...unclaimed };
+      }
+    }
+    return true;
+  }
+
+  // Unnamed expressions bind items by position; an exploded variable takes
+  // every item not needed by the variables after it
+  let index = 0;
+  specs.forEach((spec, i) => {
+    if (index >= items.length) {
+      return;
+    }
+    if (!spec.explode) {
+      variables[spec.name] = toValue(items[index++]);
+      return;
+    }
+    const remaining = specs.length - i - 1;
+    const taken = items.slice(
+      index,
+      Math.max(index + 1, items.length - remaining)
+    );
+    index += taken.length;
+    if (taken.every((item) => item.includes("="))) {
+      variables[spec.name] = Object.fromEntries(
+        taken.map((item) => {
+          const separator = item.indexOf("=");
+          return [
+            decodeTemplateValue(item.slice(0, separator)),
+            decodeTemplateValue(item.slice(separator + 1)),
+          ];
+        })
+      );
+    } else {
+      variables[spec.name] = taken.map(decodeTemplateValue);
+    }
+  });
+  return index === items.length;
+}
+
+/**
+ * Number of literal characters in a template, used to rank matches:
+ * a template with more fixed text is more specific.
+ */
+export function getTemplateSpecificity(template: string): number {
+  return parseTemplate(template).reduce(
+    (total, part) => total + ("literal" in part ? part.literal.length : 0),
+    0
+  );
+}
+
+/**
+ * Confidence of a template match, between scheme matches (0.5) and exact
+ * matches (1.0), growing with the share of the URI fixed by the template.
+ */
+function getTemplateConfidence(template: string, uri: string): number {
+  const ratio = Math.min(1, getTemplateSpecificity(template) / uri.length);
+  return Math.round((0.6 + 0.3 * ratio) * 100) / 100;
+}
+
+/**
+ * Finds the resource templates matching a URI, most specific first.
+ */
+export function matchResourceTemplates(
+  uri: string,
+  templates: AggregatedResourceTemplate[]
+): ResourceTemplateMatch[] {
+  const matches: ResourceTemplateMatch[] = [];
+  for (const template of templates) {
+    if (!template.uriTemplate) {
+      continue;
+    }
+    const variables = matchUriTemplate(template.uriTemplate, uri);
+    if (variables) {
+      matches.push({
+        serverId: template.serverId,
+        template,
+        variables,
+        specificity: getTemplateSpecificity(template.uriTemplate),
+      });
+    }
+  }
+  return matches.sort((a, b) => b.specificity - a.specificity);
 }
@@ -0,0 +1,175 @@
+import { jest } from "@jest/globals";
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { McpClientHost, McpHostConfig } from "../../src/index.js";
+
+type Mode = "streamable" | "legacy-sse" | "broken";
+
+function initializeResult(id: number, protocolVersion: string) {
+  return {
+    jsonrpc: "2.0",
+    id,
+    result: {
+      protocolVersion,
+      capabilities: { tools: {} },
+      serverInfo: { name: "stand-in", version: "1.0.0" },
+    },
+  };
+}
+
+function toolsResult(id: number) {
+  return {
+    jsonrpc: "2.0",
+    id,
+    result: { tools: [{ name: "echo", inputSchema: { type: "object" } }] },
+  };
+}
+
+/**
+ * In-process stand-in that speaks either Streamable HTTP or the legacy
+ * HTTP+SSE transport on the same URL.
+ */
+function createStandInServer(mode: Mode) {
+  let sseStream: ServerResponse | undefined;
+  const requests: Array<{ method: string; path: string; headers: any }> = [];
+
+  const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      requests.push({
+        method: req.method ?? "",
+        path: req.url ?? "",
+        headers: req.headers,
+      });
+      const body = raw ? JSON.parse(raw) : undefined;
+
+      if (mode === "broken") {
+        res.writeHead(500).end("internal error");
+        return;
+      }
+
+      if (mode === "streamable") {
+        if (req.method !== "POST") {
+          res.writeHead(405).end();
+        } else if (body.method === "initialize") {
+          res.writeHead(200, { "content-type": "application/json" });
+          res.end(
+            JSON.stringify(
+              initializeResult(body.id, body.params.protocolVersion)
+            )
+          );
+        } else if (body.method === "tools/list") {
+          res.writeHead(200, { "content-type": "application/json" });
+          res.end(JSON.stringify(toolsResult(body.id)));
+        } else {
+          res.writeHead(202).end();
+        }
+        return;
+      }
+
+      // Legacy SSE: GET opens the stream, POSTs go to the announced endpoint
+      if (req.method === "GET" && req.url === "/mcp") {
+        res.writeHead(200, { "content-type": "text/event-stream" });
+        res.write("event: endpoint\ndata: /messages\n\n");
+        sseStream = res;
+        return;
+      }
+      if (req.method === "POST" && req.url === "/messages") {
+        res.writeHead(202).end();
+        let response: unknown;
+        if (body.method === "initialize") {
+          response = initializeResult(body.id, body.params.protocolVersion);
+        } else if (body.method === "tools/list") {
+          response = toolsResult(body.id);
+        }
+        if (response) {
+          sseStream?.write(
+            `event: message\ndata: ${JSON.stringify(response)}\n\n`
+          );
+        }
+        return;
+      }
+      res.writeHead(405).end();
+    });
+  });
+
+  return { server, requests };
+}
+
+describe("http-auto transport negotiation", () => {
+  let server: Server;
+  let requests: ReturnType<typeof createStandInServer>["requests"];
+  let host: McpClientHost | undefined;
+
+  async function startStandIn(mode: Mode): Promise<string> {
+    ({ server, requests } = createStandInServer(mode));
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    const { port } = server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}/mcp`;
+  }
+
+  function createHost(url: string): McpClientHost {
+    const config: McpHostConfig = {
+      hostInfo: { name: "TestHost", version: "1.0.0" },
+      servers: [
+        {
+          id: "auto-server",
+          transport: "http-auto",
+          url,
+          headers: { "x-api-key": "secret" },
+        },
+      ],
+    };
+    return new McpClientHost(config);
+  }
+
+  afterEach(async () => {
+    await host?.stop();
+    host = undefined;
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test("uses streamable-http when the server accepts it", async () => {
+    host = createHost(await startStandIn("streamable"));
+
+    await host.start();
+
+    const status = host.getServerStatus("auto-server");
+    expect(status?.state).toBe("connected");
+    expect(status?.transport).toBe("streamable-http");
+    expect(host.getTools().map((t) => t.name)).toEqual(["echo"]);
+  });
+
+  test("falls back to legacy SSE when the initialize POST is rejected", async () => {
+    host = createHost(await startStandIn("legacy-sse"));
+    const errorSpy = jest.fn();
+    host.on("serverError", errorSpy);
+
+    await host.start();
+
+    const status = host.getServerStatus("auto-server");
+    expect(status?.state).toBe("connected");
+    expect(status?.transport).toBe("sse");
+    expect(host.getTools().map((t) => t.name)).toEqual(["echo"]);
+    expect(errorSpy).not.toHaveBeenCalled();
+
+    // Configured headers are sent on both the SSE stream and message POSTs
+    const sseGet = requests.find((r) => r.method === "GET");
+    const messagePost = requests.find((r) => r.path === "/messages");
+    expect(sseGet?.headers["x-api-key"]).toBe("secret");
+    expect(messagePost?.headers["x-api-key"]).toBe("secret");
+  });
+
+  test("does not fall back on other HTTP errors", async () => {
+    host = createHost(await startStandIn("broken"));
+
+    await host.start();
+
+    expect(host.getServerStatus("auto-server")?.state).toBe("failed");
+    expect(requests.every((r) => r.method === "POST")).toBe(true);
+  });
+});
@@ -0,0 +1,361 @@
+import {
+  JsonSchema,
+  formatValidationIssues,
+  normalizeSchema,
+  validateJsonSchema,
+} from "../../src/json-schema.js";
+
+describe("JSON Schema Validation", () => {
+  const searchSchema: JsonSchema = {
+    type: "object",
+    properties: {
+      query: { type: "string", minLength: 1 },
+      limit: { type: "integer", minimum: 1, maximum: 50 },
+      sort: { enum: ["relevance", "date"] },
+      filters: {
+        type: "array",
+        items: { $ref: "#/$defs/filter" },
+        maxItems: 2,
+      },
+    },
+    required: ["query"],
+    additionalProperties: false,
+    $defs: {
+      filter: {
+        type: "object",
+        properties: { field: { type: "string" }, value: {} },
+        required: ["field", "value"],
+      },
+    },
+  };
+
+  it("accepts valid values", () => {
+    expect(
+      validateJsonSchema(searchSchema, {
+        query: "mcp",
+        limit: 10,
+        sort: "date",
+        filters: [{ field: "lang", value: "en" }],
+      })
+    ).toEqual([]);
+  });
+
+  it("reports each failure with its JSON Pointer path", () => {
+    const issues = validateJsonSchema(searchSchema, {
+      limit: 2.5,
+      sort: "stars",
+      filters: [{ field: "lang" }, { field: 1, value: null }],
+      page: 2,
+    });
+
+    expect(issues).toEqual([
+      { path: "/query", keyword: "required", message: "is required" },
+      { path: "/limit", keyword: "type", message: "must be integer" },
+      {
+        path: "/sort",
+        keyword: "enum",
+        message: 'must be one of "relevance", "date"',
+      },
+      { path: "/filters/0/value", keyword: "required", message: "is required" },
+      { path: "/filters/1/field", keyword: "type", message: "must be string" },
+      {
+        path: "/page",
+        keyword: "additionalProperties",
+        message: "is not allowed",
+      },
+    ]);
+  });
+
+  it.each([
+    [{ type: "string", maxLength: 3 }, "abcd", "maxLength"],
+    [{ type: "string", pattern: "^[a-z]+$" }, "ABC", "pattern"],
+    [{ type: "number", exclusiveMinimum: 0 }, 0, "exclusiveMinimum"],
+    [{ type: "number", minimum: 0, exclusiveMinimum: true }, 0, "minimum"],
+    [{ type: "number", multipleOf: 0.5 }, 1.2, "multipleOf"],
+    [{ type: "array", minItems: 1 }, [], "minItems"],
+    [{ type: "array", uniqueItems: true }, [{ a: 1 }, { a: 1 }], "uniqueItems"],
+    [{ type: "object", maxProperties: 1 }, { a: 1, b: 2 }, "maxProperties"],
+    [{ const: "fixed" }, "other", "const"],
+    [{ anyOf: [{ type: "string" }, { type: "number" }] }, true, "anyOf"],
+    [{ oneOf: [{ type: "number" }, { type: "integer" }] }, 1, "oneOf"],
+    [{ not: { type: "null" } }, null, "not"],
+    [{ type: ["string", "null"] }, 1, "type"],
+  ])("rejects %j for %j with %s", (schema, value, keyword) => {
+    expect(
+      validateJsonSchema(schema as JsonSchema, value).map(
+        (issue) => issue.keyword
+      )
+    ).toEqual([keyword]);
+  });
+
+  it("applies if/then/else and tuple items", () => {
+    const schema: JsonSchema = {
+      type: "object",
+      if: { properties: { kind: { const: "point" } } },
+      then: {
+        properties: {
+          coords: { prefixItems: [{ type: "number" }, { type: "number" }] },
+        },
+      },
+      else: { required: ["name"] },
+    };
+
+    expect(
+      validateJsonSchema(schema, { kind: "point", coords: [1, "2"] })
+    ).toEqual([
+      { path: "/coords/1", keyword: "type", message: "must be number" },
+    ]);
+    expect(validateJsonSchema(schema, { kind: "place" })).toEqual([
+      { path: "/name", keyword: "required", message: "is required" },
+    ]);
+  });
+
+  it("ignores formats, unknown keywords and unresolvable references", () => {
+    expect(
+      validateJsonSchema(
+        {
+          type: "object",
+          properties: {
+            email: { type: "string", format: "email", "x-hint": "work" },
+            remote: { $ref: "https://example.com/schema.json" },
+          },
+        },
+        { email: "not-an-email", remote: 42 }
+      )
+    ).toEqual([]);
+    expect(validateJsonSchema(true, "anything")).toEqual([]);
+    expect(validateJsonSchema(false, "anything")).toHaveLength(1);
+  });
+
+  it("escapes property names in paths and formats issues", () => {
+    const issues = validateJsonSchema(
+      { type: "object", additionalProperties: { type: "string" } },
+      { "a/b~c": 1 }
+    );
+
+    expect(issues[0].path).toBe("/a~1b~0c");
+    expect(formatValidationIssues(issues)).toBe("/a~1b~0c must be string");
+    expect(
+      formatValidationIssues(validateJsonSchema({ type: "object" }, []))
+    ).toBe("/ must be object");
+  });
+
+  it("does not treat inherited properties as present", () => {
+    expect(
+      validateJsonSchema(
+        { type: "object", required: ["toString", "constructor"] },
+        {}
+      )
+    ).toEqual([
+      { path: "/toString", keyword: "required", message: "is required" },
+      { path: "/constructor", keyword: "required", message: "is required" },
+    ]);
+    expect(
+      validateJsonSchema(
+        { type: "object", additionalProperties: false },
+        JSON.parse('{"toString": 1}')
+      )
+    ).toHaveLength(1);
+    expect(validateJsonSchema({ $ref: "#/toString" }, 1)).toEqual([]);
+  });
+
+  it("stops at cyclic references", () => {
+    const schema: JsonSchema = {
+      $ref: "#/$defs/a",
+      $defs: {
+        a: { type: "object", $ref: "#/$defs/b" },
+        b: { required: ["id"], $ref: "#/$defs/a" },
+      },
+    };
+
+    expect(validateJsonSchema(schema, { id: 1 })).toEqual([]);
+    expect(validateJsonSchema(schema, {})).toEqual([
+      { path: "/id", keyword: "required", message: "is required" },
+    ]);
+    expect(validateJsonSchema(schema, "x")).toEqual([
+      { path: "", keyword: "type", message: "must be object" },
+    ]);
+  });
+});
+
+describe("JSON Schema Normalization", () => {
+  const bookingSchema: JsonSchema = {
+    $schema: "https://json-schema.org/draft/2020-12/schema",
+    type: "object",
+    properties: {
+      guest: { $ref: "#/$defs/person" },
+      nights: { type: "integer", minimum: 1, default: 1 },
+      room: { oneOf: [{ const: "single" }, { const: "double" }] },
+      notes: {},
+    },
+    required: ["guest"],
+    $defs: {
+      person: {
+        allOf: [
+          {
+            type: "object",
+            properties: { name: { type: "string" } },
+            required: ["name"],
+          },
+          { properties: { email: { type: "string", format: "email" } } },
+        ],
+      },
+    },
+  };
+
+  it("rewrites schemas for strict modes and reports lossy conversions", () => {
+    const original = structuredClone(bookingSchema);
+    const { schema, issues } = normalizeSchema(bookingSchema);
+
+    expect(schema).toEqual({
+      type: "object",
+      properties: {
+        guest: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            email: { type: ["string", "null"] },
+          },
+          required: ["name", "email"],
+          additionalProperties: false,
+        },
+        nights: { type: ["integer", "null"] },
+        room: {
+          anyOf: [{ enum: ["single"] }, { enum: ["double"] }, { type: "null" }],
+        },
+        notes: {
+          anyOf: [
+            { type: "string" },
+            { type: "number" },
+            { type: "boolean" },
+            { type: "null" },
+          ],
+        },
+      },
+      required: ["guest", "nights", "room", "notes"],
+      additionalProperties: false,
+    });
+    expect(issues).toEqual([
+      expect.objectContaining({
+        path: "/properties/guest/properties/email",
+        keyword: "format",
+      }),
+      expect.objectContaining({
+        path: "/properties/nights",
+        keyword: "minimum",
+      }),
+      expect.objectContaining({ path: "/properties/room", keyword: "oneOf" }),
+      expect.objectContaining({ path: "/properties/notes", keyword: "type" }),
+    ]);
+    expect(bookingSchema).toEqual(original);
+    // Omitted optional values are sent as null
+    expect(
+      validateJsonSchema(schema, {
+        guest: { name: "Ada", email: null },
+        nights: null,
+        room: "single",
+        notes: null,
+      })
+    ).toEqual([]);
+  });
+
+  it("closes open objects and stops at recursive references", () => {
+    const { schema, issues } = normalizeSchema({
+      type: "object",
+      properties: {
+        tags: { type: "object", additionalProperties: { type: "string" } },
+        tree: { $ref: "#/$defs/node" },
+        remote: { $ref: "https://example.com/schema.json" },
+      },
+      required: ["tags", "tree", "remote"],
+      $defs: {
+        node: {
+          type: "object",
+          properties: {
+            children: { type: "array", items: { $ref: "#/$defs/node" } },
+          },
+        },
+      },
+    });
+
+    expect(schema.properties).toMatchObject({
+      tags: { type: "object", properties: {}, additionalProperties: false },
+      tree: {
+        properties: {
+          children: {
+            type: ["array", "null"],
+            items: { anyOf: expect.any(Array) },
+          },
+        },
+      },
+    });
+    expect(issues.map(({ path, keyword }) => `${path} ${keyword}`)).toEqual([
+      "/properties/tags additionalProperties",
+      "/properties/tree/properties/children/items $ref",
+      "/properties/tree/properties/children/items type",
+      "/properties/remote $ref",
+      "/properties/remote type",
+    ]);
+    expect(issues[1].message).toBe(
+      "recursive $ref #/$defs/node was not inlined"
+    );
+  });
+
+  it("reports free-form objects closed in strict mode", () => {
+    const { schema, issues } = normalizeSchema({
+      type: "object",
+      properties: { metadata: { type: "object" } },
+      required: ["metadata"],
+    });
+
+    expect(schema.properties).toEqual({
+      metadata: {
+        type: "object",
+        properties: {},
+        required: [],
+        additionalProperties: false,
+      },
+    });
+    expect(issues).toEqual([
+      {
+        path: "/properties/metadata",
+        keyword: "additionalProperties",
+        message:
+          "free-form object was closed and can no longer hold any properties",
+      },
+    ]);
+    // Tools without arguments are not affected
+    expect(normalizeSchema({ type: "object" }).issues).toEqual([]);
+  });
+
+  it("rewrites schemas for the OpenAPI subset", () => {
+    const { schema, issues } = normalizeSchema(bookingSchema, "openapi");
+
+    expect(schema).toEqual({
+      type: "object",
+      properties: {
+        guest: {
+          type: "object",
+          properties: {
+            name: { type: "string" },
+            email: { type: "string" },
+          },
+          required: ["name"],
+        },
+        nights: { type: "integer" },
+        room: { anyOf: [{ enum: ["single"] }, { enum: ["double"] }] },
+        notes: {},
+      },
+      required: ["guest"],
+    });
+    expect(issues.map((issue) => issue.keyword)).toEqual([
+      "format",
+      "minimum",
+      "oneOf",
+    ]);
+    expect(
+      normalizeSchema({ type: ["string", "null"], const: "x" }, "openapi")
+        .schema
+    ).toEqual({ type: "string", nullable: true, enum: ["x"] });
+  });
+});
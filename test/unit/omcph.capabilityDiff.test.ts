@@ -0,0 +1,153 @@
+import { jest } from "@jest/globals";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ListPromptsRequestSchema,
+  ListToolsRequestSchema,
+  Prompt,
+  Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+import { CapabilityDiff, McpClientHost } from "../../src/index.js";
+
+function tool(name: string, description?: string): Tool {
+  return { name, description, inputSchema: { type: "object" } };
+}
+
+/** Low-level server whose tool and prompt lists can be edited by the test */
+function createServer(name: string) {
+  const server = new Server(
+    { name, version: "1.0.0" },
+    {
+      capabilities: {
+        tools: { listChanged: true },
+        prompts: { listChanged: true },
+      },
+    }
+  );
+  const lists: { tools: Tool[]; prompts: Prompt[] } = {
+    tools: [tool("search"), tool("fetch")],
+    prompts: [{ name: "summarize" }],
+  };
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: lists.tools,
+  }));
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: lists.prompts,
+  }));
+  return { server, lists };
+}
+
+function nextEvent<T>(
+  host: McpClientHost,
+  event: "toolsChanged"
+): Promise<CapabilityDiff<T>> {
+  return new Promise((resolve) =>
+    host.once(event, (diff) => resolve(diff as CapabilityDiff<T>))
+  );
+}
+
+describe("McpClientHost Capability Diff Events", () => {
+  let host: McpClientHost;
+  let alpha: ReturnType<typeof createServer>;
+  let beta: ReturnType<typeof createServer>;
+
+  beforeEach(() => {
+    alpha = createServer("alpha");
+    beta = createServer("beta");
+    host = new McpClientHost({
+      hostInfo: { name: "TestHost", version: "1.0.0" },
+      servers: [
+        { id: "alpha", transport: "in-process", server: alpha.server },
+        { id: "beta", transport: "in-process", server: beta.server },
+      ],
+    });
+  });
+
+  afterEach(async () => {
+    await host.stop();
+  });
+
+  test("reports initial tools as added, keyed by server", async () => {
+    const toolsSpy = jest.fn();
+    host.on("toolsChanged", toolsSpy);
+
+    await host.start();
+
+    const diffs = toolsSpy.mock.calls.map(([diff]) => diff);
+    expect(diffs).toHaveLength(2);
+    expect(diffs).toContainEqual({
+      alpha: {
+        added: [
+          expect.objectContaining({ name: "search", serverId: "alpha" }),
+          expect.objectContaining({ name: "fetch", serverId: "alpha" }),
+        ],
+        removed: [],
+        changed: [],
+      },
+    });
+  });
+
+  test("reports added, removed and changed tools after a list change", async () => {
+    await host.start();
+    alpha.lists.tools = [tool("search", "Now with filters"), tool("browse")];
+    const diffPromise = nextEvent<any>(host, "toolsChanged");
+
+    await alpha.server.sendToolListChanged();
+    const diff = await diffPromise;
+
+    expect(Object.keys(diff)).toEqual(["alpha"]);
+    expect(diff.alpha.added).toEqual([
+      expect.objectContaining({ name: "browse" }),
+    ]);
+    expect(diff.alpha.removed).toEqual([
+      expect.objectContaining({ name: "fetch" }),
+    ]);
+    expect(diff.alpha.changed).toEqual([
+      {
+        previous: expect.objectContaining({ name: "search" }),
+        current: expect.objectContaining({
+          name: "search",
+          description: "Now with filters",
+        }),
+      },
+    ]);
+  });
+
+  test("does not emit when a refreshed list is unchanged", async () => {
+    await host.start();
+    const toolsSpy = jest.fn();
+    host.on("toolsChanged", toolsSpy);
+    const updated = new Promise((resolve) =>
+      host.once("capabilitiesUpdated", resolve)
+    );
+
+    await alpha.server.sendToolListChanged();
+    await updated;
+
+    expect(toolsSpy).not.toHaveBeenCalled();
+  });
+
+  test("reports every server's entries as removed on stop", async () => {
+    await host.start();
+    const promptsSpy = jest.fn();
+    host.on("promptsChanged", promptsSpy);
+
+    await host.stop();
+
+    const merged = Object.assign(
+      {},
+      ...promptsSpy.mock.calls.map(([diff]) => diff)
+    );
+    expect(merged).toEqual({
+      alpha: {
+        added: [],
+        removed: [expect.objectContaining({ name: "summarize" })],
+        changed: [],
+      },
+      beta: {
+        added: [],
+        removed: [expect.objectContaining({ name: "summarize" })],
+        changed: [],
+      },
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  CompleteRequest,
+  CompleteRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListResourcesRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { McpClientHost, McpHostError, ErrorCodes } from "../../src/index.js";
+
+const LANGUAGES = ["typescript", "python", "rust", "typescript"];
+
+/**
+ * Low-level server declaring the completions capability. Prompt arguments
+ * complete from a list of languages, template variables echo the reference.
+ */
+function createCompletingServer() {
+  const server = new Server(
+    { name: "completing-server", version: "1.0.0" },
+    { capabilities: { completions: {}, prompts: {}, resources: {} } }
+  );
+  const requests: CompleteRequest["params"][] = [];
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: [{ name: "review", arguments: [{ name: "language" }] }],
+  }));
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: [],
+  }));
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: [{ uriTemplate: "repo://{owner}/{repo}", name: "repo" }],
+  }));
+  server.setRequestHandler(CompleteRequestSchema, async (request) => {
+    requests.push(request.params);
+    const { ref, argument } = request.params;
+    if (ref.type === "ref/prompt") {
+      if (argument.value === "") {
+        // Only a total is reported, without hasMore
+        return { completion: { values: LANGUAGES.slice(0, 2), total: 3 } };
+      }
+      return {
+        completion: {
+          values: LANGUAGES.filter((value) => value.startsWith(argument.value)),
+        },
+      };
+    }
+    return {
+      completion: {
+        values: [`${argument.value}-org`],
+        total: 12,
+        hasMore: true,
+      },
+    };
+  });
+
+  return { server, requests };
+}
+
+describe("McpClientHost Argument Completion", () => {
+  let host: McpClientHost;
+  let requests: CompleteRequest["params"][];
+
+  beforeEach(async () => {
+    const completing = createCompletingServer();
+    requests = completing.requests;
+    host = new McpClientHost({
+      hostInfo: { name: "TestHost", version: "1.0.0" },
+      servers: [
+        {
+          id: "completing",
+          transport: "in-process",
+          server: completing.server,
+        },
+        {
+          id: "plain",
+          transport: "in-process",
+          server: new McpServer({ name: "plain", version: "1.0.0" }),
+        },
+      ],
+    });
+    await host.start();
+  });
+
+  afterEach(async () => {
+    await host.stop();
+  });
+
+  test("completes prompt arguments with deduplicated values", async () => {
+    const suggestions = await host.completePromptArgument(
+      "completing",
+      "review",
+      "language",
+      "ty"
+    );
+
+    expect(suggestions).toEqual({
+      values: ["typescript"],
+      total: undefined,
+      hasMore: false,
+    });
+    expect(requests).toEqual([
+      {
+        ref: { type: "ref/prompt", name: "review" },
+        argument: { name: "language", value: "ty" },
+      },
+    ]);
+  });
+
+  test("completes resource template variables", async () => {
+    const suggestions = await host.completeResourceTemplateArgument(
+      "completing",
+      "repo://{owner}/{repo}",
+      "owner",
+      "lef"
+    );
+
+    expect(suggestions).toEqual({
+      values: ["lef-org"],
+      total: 12,
+      hasMore: true,
+    });
+    expect(requests[0].ref).toEqual({
+      type: "ref/resource",
+      uri: "repo://{owner}/{repo}",
+    });
+  });
+
+  test("derives hasMore from the reported total", async () => {
+    const suggestions = await host.completePromptArgument(
+      "completing",
+      "review",
+      "language",
+      ""
+    );
+
+    expect(suggestions).toEqual({
+      values: ["typescript", "python"],
+      total: 3,
+      hasMore: true,
+    });
+  });
+
+  test("rejects servers without the completions capability", async () => {
+    const error = await host
+      .completePromptArgument("plain", "review", "language", "ty")
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(McpHostError);
+    expect(error.code).toBe(ErrorCodes.COMPLETIONS_NOT_SUPPORTED);
+    expect(error.serverId).toBe("plain");
+  });
+
+  test("rejects unknown servers", async () => {
+    await expect(
+      host.completeResourceTemplateArgument(
+        "missing",
+        "repo://{owner}",
+        "owner",
+        ""
+      )
+    ).rejects.toMatchObject({ code: ErrorCodes.SERVER_NOT_FOUND });
+  });
+});
@@ -0,0 +1,121 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpClientHost } from "../../src/index.js";
+
+/**
+ * Custom transport factory whose transports are only handed out once
+ * released, recording which connections have been closed.
+ */
+function createSlowFactory() {
+  const pending: Array<() => void> = [];
+  const closed: number[] = [];
+  let created = 0;
+
+  const factory = async () => {
+    const id = ++created;
+    const server = new McpServer({ name: "slow", version: "1.0.0" });
+    server.tool(`tool${id}`, async () => ({ content: [] }));
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+
+    const close = clientTransport.close.bind(clientTransport);
+    clientTransport.close = async () => {
+      // Closing either end of the pair closes the other one too
+      if (!closed.includes(id)) {
+        closed.push(id);
+      }
+      await close();
+    };
+    await new Promise<void>((resolve) => pending.push(resolve));
+    return clientTransport;
+  };
+
+  return {
+    factory,
+    closed,
+    /** Number of transports requested so far */
+    created: () => created,
+    /** Hands out the oldest transport still held back */
+    release: async () => {
+      pending.shift()?.();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    },
+  };
+}
+
+function flush() {
+  return new Promise((resolve) => setTimeout(resolve, 10));
+}
+
+describe("McpClientHost Connection Attempts", () => {
+  let host: McpClientHost;
+  let slow: ReturnType<typeof createSlowFactory>;
+
+  beforeEach(() => {
+    slow = createSlowFactory();
+    host = new McpClientHost({
+      hostInfo: { name: "TestHost", version: "1.0.0" },
+      servers: [
+        { id: "a", transport: "custom", createTransport: slow.factory },
+      ],
+    });
+  });
+
+  afterEach(async () => {
+    await host.stop();
+  });
+
+  test("restartServer cancels the connection attempt in progress", async () => {
+    const started = host.start();
+    await flush();
+    const restarted = host.restartServer("a");
+    await flush();
+    expect(slow.created()).toBe(2);
+
+    await slow.release();
+    await slow.release();
+    await Promise.all([started, restarted]);
+
+    expect(slow.closed).toEqual([1]);
+    expect(host.getServerStatus("a")?.state).toBe("connected");
+    expect([...host.getConnectedClients().keys()]).toEqual(["a"]);
+    expect(host.getTools().map((t) => t.name)).toEqual(["tool2"]);
+
+    await host.stop();
+    expect(slow.closed).toEqual([1, 2]);
+  });
+
+  test("removeServer cancels the connection attempt in progress", async () => {
+    const started = host.start();
+    await flush();
+    await host.removeServer("a");
+
+    await slow.release();
+    await started;
+
+    expect(slow.closed).toEqual([1]);
+    expect(host.getConnectedClients().size).toBe(0);
+    expect(host.getTools()).toEqual([]);
+    expect(host.getServerStatus("a")).toBeUndefined();
+  });
+
+  test("stop cancels connection attempts started by start", async () => {
+    const started = host.start();
+    await flush();
+    const stopped = host.stop();
+
+    await slow.release();
+    await Promise.all([started, stopped]);
+
+    expect(slow.closed).toEqual([1]);
+    expect(host.getConnectedClients().size).toBe(0);
+    expect(host.getServerStatus("a")?.state).toBe("stopped");
+    // The cancelled attempt does not get in the way of the next start
+    const restarted = host.start();
+    await flush();
+    await slow.release();
+    await restarted;
+    expect(host.getServerStatus("a")?.state).toBe("connected");
+  });
+});
@@ -0,0 +1,84 @@
+import { jest } from "@jest/globals";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpClientHost, McpHostConfig } from "../../src/index.js";
+import { McpHostError, ErrorCodes } from "../../src/errors.js";
+
+// Creates an SDK server with one tool and returns the client side of a linked pair
+async function createLinkedServer(toolName: string) {
+  const server = new McpServer({ name: "custom", version: "1.0.0" });
+  server.tool(toolName, async () => ({
+    content: [{ type: "text", text: `${toolName} called` }],
+  }));
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  return clientTransport;
+}
+
+describe("McpClientHost Custom Transports", () => {
+  let host: McpClientHost;
+
+  afterEach(async () => {
+    await host.stop();
+  });
+
+  test("connects using a createTransport factory from the config", async () => {
+    const factory = jest.fn(() => createLinkedServer("inline-tool"));
+    const config: McpHostConfig = {
+      hostInfo: { name: "TestHost", version: "1.0.0" },
+      servers: [
+        {
+          id: "inline",
+          transport: "custom",
+          createTransport: factory,
+          options: { flavour: "test" },
+        },
+      ],
+    };
+    host = new McpClientHost(config);
+
+    await host.start();
+
+    expect(factory).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "inline", options: { flavour: "test" } })
+    );
+    expect(host.getServerStatus("inline")?.state).toBe("connected");
+    expect(host.getTools().map((t) => t.name)).toEqual(["inline-tool"]);
+  });
+
+  test("connects using a transport registered on the host", async () => {
+    const config: McpHostConfig = {
+      hostInfo: { name: "TestHost", version: "1.0.0" },
+      servers: [{ id: "ipc", transport: "custom", transportName: "fake-ipc" }],
+    };
+    host = new McpClientHost(config).registerTransport("fake-ipc", () =>
+      createLinkedServer("ipc-tool")
+    );
+
+    await host.start();
+
+    const result = await host.callTool("ipc", {
+      name: "ipc-tool",
+      arguments: {},
+    });
+    expect(result.content).toEqual([{ type: "text", text: "ipc-tool called" }]);
+  });
+
+  test("reports unregistered transport names as INVALID_TRANSPORT", async () => {
+    const config: McpHostConfig = {
+      hostInfo: { name: "TestHost", version: "1.0.0" },
+      servers: [{ id: "ipc", transport: "custom", transportName: "missing" }],
+    };
+    host = new McpClientHost(config);
+    const errorSpy = jest.fn();
+    host.on("serverError", errorSpy);
+
+    await host.start();
+
+    const error = errorSpy.mock.calls[0][1] as McpHostError;
+    expect(error).toBeInstanceOf(McpHostError);
+    expect(error.code).toBe(ErrorCodes.INVALID_TRANSPORT);
+    expect(error.message).toContain('"missing" is not registered');
+  });
+});
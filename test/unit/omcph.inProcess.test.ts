@@ -0,0 +1,76 @@
+import { jest } from "@jest/globals";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpClientHost, McpHostConfig } from "../../src/index.js";
+
+function createEmbeddedServer() {
+  const server = new McpServer(
+    { name: "embedded", version: "1.0.0" },
+    { capabilities: { resources: { subscribe: true } } }
+  );
+  server.tool("add", async () => ({
+    content: [{ type: "text", text: "3" }],
+  }));
+  server.resource("notes", "memo://notes", async (uri) => ({
+    contents: [{ uri: uri.href, text: "hello" }],
+  }));
+  return server;
+}
+
+describe("McpClientHost In-Process Servers", () => {
+  let host: McpClientHost;
+  let server: McpServer;
+
+  beforeEach(async () => {
+    server = createEmbeddedServer();
+    const config: McpHostConfig = {
+      hostInfo: { name: "TestHost", version: "1.0.0" },
+      hostCapabilities: { sampling: {} },
+      servers: [{ id: "embedded", transport: "in-process", server }],
+    };
+    host = new McpClientHost(config);
+    await host.start();
+  });
+
+  afterEach(async () => {
+    await host.stop();
+  });
+
+  test("aggregates the embedded server's capabilities", async () => {
+    expect(host.getServerStatus("embedded")?.state).toBe("connected");
+    expect(host.getTools().map((t) => t.name)).toEqual(["add"]);
+    expect(host.getResources().map((r) => r.uri)).toEqual(["memo://notes"]);
+
+    const result = await host.readResource("embedded", {
+      uri: "memo://notes",
+    });
+    expect(result.contents[0].text).toBe("hello");
+  });
+
+  test("routes sampling requests from the embedded server", async () => {
+    host.setSamplingHandler(async () => ({ content: "sampled text" }));
+
+    const result = await server.server.createMessage({
+      messages: [{ role: "user", content: { type: "text", text: "hi" } }],
+      maxTokens: 10,
+    });
+
+    expect(result.content).toEqual({ type: "text", text: "sampled text" });
+  });
+
+  test("forwards resource update notifications", async () => {
+    const updatedSpy = jest.fn();
+    host.on("resourceUpdated", updatedSpy);
+
+    await server.server.sendResourceUpdated({ uri: "memo://notes" });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(updatedSpy).toHaveBeenCalledWith("embedded", "memo://notes");
+  });
+
+  test("can be restarted with the same server instance", async () => {
+    await host.restartServer("embedded");
+
+    expect(host.getServerStatus("embedded")?.state).toBe("connected");
+    expect(host.getTools().map((t) => t.name)).toEqual(["add"]);
+  });
+});
@@ -0,0 +1,144 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ListResourcesRequestSchema,
+  ListToolsRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { McpClientHost } from "../../src/index.js";
+
+/**
+ * Low-level server whose tools/list answers can be held back,
+ * counting how often each list is requested.
+ */
+function createServer() {
+  const server = new Server(
+    { name: "refresh-server", version: "1.0.0" },
+    { capabilities: { tools: { listChanged: true }, resources: {} } }
+  );
+  const calls = { tools: 0, resources: 0 };
+  let toolNames = ["first"];
+  let gate: Promise<void> | undefined;
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    calls.tools++;
+    const names = toolNames;
+    await gate;
+    return {
+      tools: names.map((name) => ({
+        name,
+        inputSchema: { type: "object" as const },
+      })),
+    };
+  });
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    calls.resources++;
+    return { resources: [{ uri: "file:///a.txt", name: "a" }] };
+  });
+
+  return {
+    server,
+    calls,
+    setTools: (names: string[]) => (toolNames = names),
+    /** Holds tools/list responses until the returned function is called */
+    hold: () => {
+      let release!: () => void;
+      gate = new Promise((resolve) => (release = resolve));
+      return () => {
+        gate = undefined;
+        release();
+      };
+    },
+  };
+}
+
+function nextCapabilitiesUpdate(host: McpClientHost): Promise<void> {
+  return new Promise((resolve) => host.once("capabilitiesUpdated", resolve));
+}
+
+describe("McpClientHost Targeted List Refresh", () => {
+  let host: McpClientHost;
+  let stand: ReturnType<typeof createServer>;
+
+  beforeEach(async () => {
+    stand = createServer();
+    host = new McpClientHost({
+      hostInfo: { name: "TestHost", version: "1.0.0" },
+      servers: [{ id: "srv", transport: "in-process", server: stand.server }],
+    });
+    await host.start();
+  });
+
+  afterEach(async () => {
+    await host.stop();
+  });
+
+  test("a tools notification refreshes only the tools list", async () => {
+    stand.setTools(["second"]);
+    const updated = nextCapabilitiesUpdate(host);
+
+    await stand.server.sendToolListChanged();
+    await updated;
+
+    expect(host.getTools().map((t) => t.name)).toEqual(["second"]);
+    expect(stand.calls).toEqual({ tools: 2, resources: 1 });
+    expect(host.getResources()).toHaveLength(1);
+  });
+
+  test("keeps the previous tools visible until the new list is ready", async () => {
+    stand.setTools(["second"]);
+    const release = stand.hold();
+    const updated = nextCapabilitiesUpdate(host);
+
+    await stand.server.sendToolListChanged();
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(stand.calls.tools).toBe(2);
+    expect(host.getTools().map((t) => t.name)).toEqual(["first"]);
+
+    release();
+    await updated;
+    expect(host.getTools().map((t) => t.name)).toEqual(["second"]);
+  });
+
+  test("coalesces a burst of notifications into one follow-up refresh", async () => {
+    const release = stand.hold();
+    const updated = nextCapabilitiesUpdate(host);
+
+    await stand.server.sendToolListChanged();
+    await new Promise((resolve) => setImmediate(resolve));
+    stand.setTools(["third"]);
+    await stand.server.sendToolListChanged();
+    await stand.server.sendToolListChanged();
+    await stand.server.sendToolListChanged();
+
+    release();
+    await updated;
+
+    // Initial listing, the first refresh, and a single rerun for the burst
+    expect(stand.calls.tools).toBe(3);
+    expect(host.getTools().map((t) => t.name)).toEqual(["third"]);
+  });
+
+  test("reruns the initial listing for notifications sent during it", async () => {
+    const late = createServer();
+    const release = late.hold();
+    const lateHost = new McpClientHost({
+      hostInfo: { name: "TestHost", version: "1.0.0" },
+      servers: [{ id: "late", transport: "in-process", server: late.server }],
+    });
+    const started = lateHost.start();
+    while (late.calls.tools === 0) {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+
+    late.setTools(["second"]);
+    await late.server.sendToolListChanged();
+    await new Promise((resolve) => setImmediate(resolve));
+    // No second listing races the initial one
+    expect(late.calls.tools).toBe(1);
+
+    release();
+    await started;
+    expect(late.calls.tools).toBe(2);
+    expect(lateHost.getTools().map((t) => t.name)).toEqual(["second"]);
+    await lateHost.stop();
+  });
+});
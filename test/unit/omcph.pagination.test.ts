@@ -0,0 +1,122 @@
+import { jest } from "@jest/globals";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ListPromptsRequestSchema,
+  ListToolsRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { McpClientHost, McpHostConfig } from "../../src/index.js";
+
+const PAGE_SIZE = 2;
+const TOOL_COUNT = 5;
+
+/**
+ * Low-level server returning its tools and prompts in pages of two,
+ * with the page index as cursor.
+ */
+function createPagedServer(options?: { repeatCursor?: boolean }) {
+  const server = new Server(
+    { name: "paged-server", version: "1.0.0" },
+    { capabilities: { tools: {}, prompts: {} } }
+  );
+  const toolRequests: Array<string | undefined> = [];
+
+  server.setRequestHandler(ListToolsRequestSchema, async (request) => {
+    const cursor = request.params?.cursor;
+    toolRequests.push(cursor);
+    const start = cursor ? Number(cursor) : 0;
+    const end = start + PAGE_SIZE;
+    const tools = Array.from({ length: TOOL_COUNT }, (_, i) => ({
+      name: `tool-${i}`,
+      inputSchema: { type: "object" as const },
+    })).slice(start, end);
+    const nextCursor = options?.repeatCursor
+      ? "0"
+      : end < TOOL_COUNT
+      ? String(end)
+      : undefined;
+    return { tools, nextCursor };
+  });
+  server.setRequestHandler(ListPromptsRequestSchema, async (request) => {
+    return request.params?.cursor
+      ? { prompts: [{ name: "second" }] }
+      : { prompts: [{ name: "first" }], nextCursor: "next" };
+  });
+
+  return { server, toolRequests };
+}
+
+describe("McpClientHost Paginated Listing", () => {
+  let host: McpClientHost;
+
+  function createHost(
+    server: Server,
+    pagination?: McpHostConfig["pagination"]
+  ): McpClientHost {
+    return new McpClientHost({
+      hostInfo: { name: "TestHost", version: "1.0.0" },
+      pagination,
+      servers: [{ id: "paged", transport: "in-process", server }],
+    });
+  }
+
+  afterEach(async () => {
+    await host.stop();
+  });
+
+  test("follows nextCursor until the list is exhausted", async () => {
+    const { server, toolRequests } = createPagedServer();
+    host = createHost(server);
+
+    await host.start();
+
+    expect(host.getTools().map((t) => t.name)).toEqual([
+      "tool-0",
+      "tool-1",
+      "tool-2",
+      "tool-3",
+      "tool-4",
+    ]);
+    expect(toolRequests).toEqual([undefined, "2", "4"]);
+    expect(host.getPrompts().map((p) => p.name)).toEqual(["first", "second"]);
+  });
+
+  test("stops at the page cap and logs the truncation", async () => {
+    const { server, toolRequests } = createPagedServer();
+    host = createHost(server, { maxPages: 2 });
+    const logSpy = jest.fn();
+    host.on("log", logSpy);
+
+    await host.start();
+
+    expect(host.getTools()).toHaveLength(4);
+    expect(toolRequests).toHaveLength(2);
+    expect(logSpy).toHaveBeenCalledWith(
+      "warn",
+      expect.stringContaining("Truncated tools for paged at 4 items"),
+      undefined
+    );
+  });
+
+  test("keeps at most maxItems items", async () => {
+    const { server } = createPagedServer();
+    host = createHost(server, { maxItems: 3 });
+
+    await host.start();
+
+    expect(host.getTools().map((t) => t.name)).toEqual([
+      "tool-0",
+      "tool-1",
+      "tool-2",
+    ]);
+  });
+
+  test("stops when the server repeats a cursor", async () => {
+    const { server, toolRequests } = createPagedServer({ repeatCursor: true });
+    host = createHost(server);
+
+    await host.start();
+
+    expect(toolRequests).toEqual([undefined, "0"]);
+    expect(host.getTools().map((t) => t.name)).toEqual(["tool-0", "tool-1"]);
+  });
+});
@@ -0,0 +1,155 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  McpClientHost,
+  McpHostError,
+  ErrorCodes,
+  RateLimitEvent,
+  RateLimitOptions,
+} from "../../src/index.js";
+
+function createServer(name: string) {
+  const server = new McpServer({ name, version: "1.0.0" });
+  server.tool("search", async () => ({
+    content: [{ type: "text", text: "results" }],
+  }));
+  server.tool("ping", async () => ({
+    content: [{ type: "text", text: "pong" }],
+  }));
+  server.resource("notes", "file:///notes.md", async (uri) => ({
+    contents: [{ uri: uri.href, text: "# Notes" }],
+  }));
+  server.prompt("greet", async () => ({
+    messages: [{ role: "user", content: { type: "text", text: "Hello" } }],
+  }));
+  return server;
+}
+
+describe("McpClientHost Rate Limiting", () => {
+  let host: McpClientHost;
+  let events: RateLimitEvent[];
+
+  async function startHost(rateLimits: RateLimitOptions) {
+    host = new McpClientHost({
+      hostInfo: { name: "TestHost", version: "1.0.0" },
+      rateLimits,
+      servers: [
+        { id: "web", transport: "in-process", server: createServer("web") },
+        { id: "docs", transport: "in-process", server: createServer("docs") },
+      ],
+    });
+    events = [];
+    host.on("rateLimited", (event) => events.push(event));
+    await host.start();
+  }
+
+  function call(serverId: string, name: string, options = {}) {
+    return host.callTool(serverId, { name, arguments: {} }, options);
+  }
+
+  afterEach(async () => {
+    await host.stop();
+  });
+
+  test("fails fast with RATE_LIMITED when configured", async () => {
+    await startHost({
+      servers: { web: { requests: 2, intervalMs: 60000 } },
+      onLimit: "fail",
+    });
+
+    await call("web", "search");
+    await call("web", "ping");
+    const error = await call("web", "search").catch((e) => e);
+
+    expect(error).toBeInstanceOf(McpHostError);
+    expect(error.code).toBe(ErrorCodes.RATE_LIMITED);
+    expect(error.serverId).toBe("web");
+    expect(events).toEqual([
+      {
+        serverId: "web",
+        method: "tools/call",
+        toolName: "search",
+        scope: "server",
+        retryAfterMs: expect.any(Number),
+        action: "fail",
+      },
+    ]);
+    expect(events[0].retryAfterMs).toBeGreaterThan(0);
+    // Other servers have their own limits
+    await expect(call("docs", "search")).resolves.toBeDefined();
+  });
+
+  test("waits for the tool limit by default", async () => {
+    await startHost({
+      tools: { web__search: { requests: 1, intervalMs: 100 } },
+    });
+
+    const startedAt = Date.now();
+    await call("web", "search");
+    await call("web", "search");
+
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(90);
+    expect(events).toEqual([
+      expect.objectContaining({
+        serverId: "web",
+        scope: "tool",
+        toolName: "search",
+        action: "wait",
+      }),
+    ]);
+    // The limit is keyed by qualified name, so other tools are not limited
+    await call("web", "ping");
+    await call("docs", "search");
+    await call("docs", "search");
+    expect(events).toHaveLength(1);
+  });
+
+  test("applies tool name limits per server and per-request behavior", async () => {
+    await startHost({
+      tools: { search: { requests: 1, intervalMs: 60000 } },
+    });
+
+    await call("web", "search");
+    await call("docs", "search");
+    const error = await call("web", "search", { rateLimit: "fail" }).catch(
+      (e) => e
+    );
+
+    expect(error.code).toBe(ErrorCodes.RATE_LIMITED);
+    expect(events.map((event) => event.action)).toEqual(["fail"]);
+  });
+
+  test("counts resource reads and prompts against the server limit", async () => {
+    await startHost({
+      servers: { docs: { requests: 2, intervalMs: 60000, onLimit: "fail" } },
+    });
+
+    await host.readResource("docs", { uri: "file:///notes.md" });
+    await host.getPrompt("docs", { name: "greet" });
+    const error = await host
+      .readResource("docs", { uri: "file:///notes.md" })
+      .catch((e) => e);
+
+    expect(error.code).toBe(ErrorCodes.RATE_LIMITED);
+    expect(events[0]).toMatchObject({
+      method: "resources/read",
+      scope: "server",
+    });
+    expect(events[0].toolName).toBeUndefined();
+  });
+
+  test("stops waiting when the request is aborted", async () => {
+    await startHost({
+      servers: { web: { requests: 1, intervalMs: 60000 } },
+    });
+    const controller = new AbortController();
+
+    await call("web", "search");
+    const waiting = call("web", "search", {
+      signal: controller.signal,
+    }).catch((e) => e);
+    controller.abort(new Error("cancelled"));
+
+    expect(await waiting).toEqual(new Error("cancelled"));
+    expect(events).toEqual([expect.objectContaining({ action: "wait" })]);
+  });
+});
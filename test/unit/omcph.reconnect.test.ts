@@ -0,0 +1,115 @@
+import { jest } from "@jest/globals";
+import { McpClientHost, McpHostConfig } from "../../src/index.js";
+import { McpHostError, ErrorCodes } from "../../src/errors.js";
+
+// Minimal stand-in for a connected SDK client
+const createMockClient = () => ({
+  close: jest.fn(() => Promise.resolve()),
+  getServerCapabilities: jest.fn().mockReturnValue({}),
+});
+
+describe("McpClientHost Reconnection", () => {
+  const config: McpHostConfig = {
+    hostInfo: { name: "TestHost", version: "1.0.0" },
+    servers: [
+      {
+        id: "flaky-server",
+        transport: "stdio",
+        command: "test",
+        reconnect: { maxAttempts: 3, baseDelayMs: 100, jitter: 0 },
+      },
+      { id: "plain-server", transport: "stdio", command: "test" },
+    ],
+  };
+
+  let host: McpClientHost;
+  let connectSpy: jest.SpiedFunction<any>;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    host = new McpClientHost(config);
+    (host as any).isStarted = true;
+    connectSpy = jest
+      .spyOn(host as any, "connectToServer")
+      .mockImplementation(() => Promise.resolve());
+  });
+
+  afterEach(async () => {
+    await host.stop();
+    jest.useRealTimers();
+  });
+
+  test("schedules a reconnect with exponential backoff after a drop", async () => {
+    const reconnectingSpy = jest.fn();
+    host.on("serverReconnecting", reconnectingSpy);
+
+    (host as any).clients.set("flaky-server", createMockClient());
+    (host as any).handleServerDisconnection("flaky-server", new Error("boom"));
+
+    expect(reconnectingSpy).toHaveBeenCalledWith("flaky-server", 1, 100);
+    expect(connectSpy).not.toHaveBeenCalled();
+
+    // First attempt fails (no client registered), so a second one is scheduled
+    await jest.advanceTimersByTimeAsync(100);
+    expect(connectSpy).toHaveBeenCalledTimes(1);
+    expect(reconnectingSpy).toHaveBeenLastCalledWith("flaky-server", 2, 200);
+  });
+
+  test("emits serverReconnected once the connection is restored", async () => {
+    const reconnectedSpy = jest.fn();
+    host.on("serverReconnected", reconnectedSpy);
+    connectSpy.mockImplementation(async () => {
+      (host as any).clients.set("flaky-server", createMockClient());
+    });
+
+    (host as any).clients.set("flaky-server", createMockClient());
+    (host as any).handleServerDisconnection("flaky-server");
+
+    await jest.advanceTimersByTimeAsync(100);
+
+    expect(connectSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "flaky-server" })
+    );
+    expect(reconnectedSpy).toHaveBeenCalledWith("flaky-server", 1);
+  });
+
+  test("gives up after maxAttempts and emits a serverError", async () => {
+    const errorSpy = jest.fn();
+    host.on("serverError", errorSpy);
+
+    (host as any).clients.set("flaky-server", createMockClient());
+    (host as any).handleServerDisconnection("flaky-server");
+
+    await jest.advanceTimersByTimeAsync(100 + 200 + 400);
+
+    expect(connectSpy).toHaveBeenCalledTimes(3);
+    expect(errorSpy).toHaveBeenCalledWith(
+      "flaky-server",
+      expect.any(McpHostError)
+    );
+    const error = errorSpy.mock.calls[0][1] as McpHostError;
+    expect(error.code).toBe(ErrorCodes.CONNECTION_FAILED);
+  });
+
+  test("does not reconnect servers without a reconnect policy", async () => {
+    const reconnectingSpy = jest.fn();
+    host.on("serverReconnecting", reconnectingSpy);
+
+    (host as any).clients.set("plain-server", createMockClient());
+    (host as any).handleServerDisconnection("plain-server");
+
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(reconnectingSpy).not.toHaveBeenCalled();
+    expect(connectSpy).not.toHaveBeenCalled();
+  });
+
+  test("stop() cancels pending reconnects", async () => {
+    (host as any).clients.set("flaky-server", createMockClient());
+    (host as any).handleServerDisconnection("flaky-server");
+
+    await host.stop();
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(connectSpy).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,276 @@
+import { jest } from "@jest/globals";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  McpClientHost,
+  McpHostConfig,
+  McpHostError,
+  ErrorCodes,
+  RequestQueueEvent,
+} from "../../src/index.js";
+
+/**
+ * Low-level server whose requests hang until released with `finishOne`.
+ * `started` records the order in which requests reached the server.
+ */
+function createSlowServer() {
+  const started: string[] = [];
+  const pending: Array<() => void> = [];
+  const server = new Server(
+    { name: "slow", version: "1.0.0" },
+    { capabilities: { tools: {}, resources: {}, prompts: {} } }
+  );
+  const hold = (id: string) => {
+    started.push(id);
+    return new Promise<void>((resolve) => pending.push(resolve));
+  };
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [{ name: "work", inputSchema: { type: "object" as const } }],
+  }));
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: [],
+  }));
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: [],
+  }));
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: [],
+  }));
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    await hold(String(request.params.arguments?.id));
+    return { content: [] };
+  });
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    await hold(request.params.uri);
+    return { contents: [] };
+  });
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    await hold(request.params.name);
+    return { messages: [] };
+  });
+
+  return {
+    server,
+    started,
+    /** Lets the oldest running request finish */
+    finishOne: async () => {
+      pending.shift()?.();
+      await flush();
+    },
+  };
+}
+
+function flush() {
+  return new Promise((resolve) => setTimeout(resolve, 10));
+}
+
+describe("McpClientHost Request Queueing", () => {
+  let host: McpClientHost;
+  let slow: ReturnType<typeof createSlowServer>;
+
+  async function startHost(config: Partial<McpHostConfig> = {}) {
+    slow = createSlowServer();
+    host = new McpClientHost({
+      hostInfo: { name: "TestHost", version: "1.0.0" },
+      servers: [{ id: "slow", transport: "in-process", server: slow.server }],
+      ...config,
+    });
+    await host.start();
+  }
+
+  function work(id: string, priority?: number) {
+    return host.callTool(
+      "slow",
+      { name: "work", arguments: { id } },
+      { priority }
+    );
+  }
+
+  afterEach(async () => {
+    await host.stop();
+  });
+
+  test("queues requests beyond the host default in arrival order", async () => {
+    await startHost({ maxConcurrentRequests: 2 });
+    const queued = jest.fn<(event: RequestQueueEvent) => void>();
+    const dequeued = jest.fn<(event: RequestQueueEvent) => void>();
+    host.on("requestQueued", queued);
+    host.on("requestDequeued", dequeued);
+
+    const calls = ["a", "b", "c", "d"].map((id) => work(id));
+    await flush();
+
+    expect(slow.started).toEqual(["a", "b"]);
+    expect(host.getRequestQueueStatus("slow")).toEqual({
+      serverId: "slow",
+      active: 2,
+      queued: 2,
+      maxConcurrentRequests: 2,
+      oldestWaitMs: expect.any(Number),
+    });
+    expect(queued).toHaveBeenCalledTimes(2);
+    expect(queued).toHaveBeenLastCalledWith({
+      serverId: "slow",
+      method: "tools/call",
+      queueDepth: 2,
+      waitMs: 0,
+    });
+
+    await slow.finishOne();
+    expect(slow.started).toEqual(["a", "b", "c"]);
+    expect(dequeued).toHaveBeenCalledWith({
+      serverId: "slow",
+      method: "tools/call",
+      queueDepth: 1,
+      waitMs: expect.any(Number),
+    });
+
+    for (let i = 0; i < 3; i++) {
+      await slow.finishOne();
+    }
+    await Promise.all(calls);
+    expect(slow.started).toEqual(["a", "b", "c", "d"]);
+    expect(host.getRequestQueueStatus("slow")).toMatchObject({
+      active: 0,
+      queued: 0,
+      oldestWaitMs: 0,
+    });
+  });
+
+  test("shares the server limit across tools, resources and prompts", async () => {
+    slow = createSlowServer();
+    host = new McpClientHost({
+      hostInfo: { name: "TestHost", version: "1.0.0" },
+      maxConcurrentRequests: 10,
+      servers: [
+        {
+          id: "slow",
+          transport: "in-process",
+          server: slow.server,
+          maxConcurrentRequests: 1,
+        },
+      ],
+    });
+    await host.start();
+
+    const requests = [
+      work("tool"),
+      host.readResource("slow", { uri: "file:///a.txt" }),
+      host.getPrompt("slow", { name: "greet" }),
+    ];
+    await flush();
+
+    expect(slow.started).toEqual(["tool"]);
+    expect(host.getRequestQueueStatus("slow")?.queued).toBe(2);
+
+    await slow.finishOne();
+    await slow.finishOne();
+    await slow.finishOne();
+    await Promise.all(requests);
+    expect(slow.started).toEqual(["tool", "file:///a.txt", "greet"]);
+  });
+
+  test("sends higher priority requests first", async () => {
+    await startHost({ maxConcurrentRequests: 1 });
+
+    const calls = [
+      work("running"),
+      work("low", -1),
+      work("normal"),
+      work("high", 5),
+      work("normal-2"),
+    ];
+    await flush();
+    for (let i = 0; i < calls.length; i++) {
+      await slow.finishOne();
+    }
+    await Promise.all(calls);
+
+    expect(slow.started).toEqual([
+      "running",
+      "high",
+      "normal",
+      "normal-2",
+      "low",
+    ]);
+  });
+
+  test("drops aborted requests from the queue", async () => {
+    await startHost({ maxConcurrentRequests: 1 });
+    const controller = new AbortController();
+
+    const running = work("running");
+    const aborted = host
+      .callTool(
+        "slow",
+        { name: "work", arguments: { id: "aborted" } },
+        { signal: controller.signal }
+      )
+      .catch((e) => e);
+    const next = work("next");
+    await flush();
+    controller.abort(new Error("no longer needed"));
+
+    expect(await aborted).toEqual(new Error("no longer needed"));
+    expect(host.getRequestQueueStatus("slow")?.queued).toBe(1);
+
+    await slow.finishOne();
+    await slow.finishOne();
+    await Promise.all([running, next]);
+    expect(slow.started).toEqual(["running", "next"]);
+  });
+
+  test("rejects queued requests when the server is removed", async () => {
+    await startHost({ maxConcurrentRequests: 1 });
+    const controller = new AbortController();
+
+    const running = host
+      .callTool(
+        "slow",
+        { name: "work", arguments: { id: "running" } },
+        { signal: controller.signal }
+      )
+      .catch(() => undefined);
+    const queued = work("queued").catch((e) => e);
+    await flush();
+    await host.removeServer("slow");
+    // The SDK keeps the request timeout of closed connections running
+    controller.abort();
+    await running;
+
+    const error = await queued;
+    expect(error).toBeInstanceOf(McpHostError);
+    expect(error.code).toBe(ErrorCodes.SERVER_NOT_FOUND);
+    expect(host.getRequestQueueStatus("slow")).toBeUndefined();
+    expect(slow.started).toEqual(["running"]);
+  });
+
+  test("does not limit servers without a limit", async () => {
+    await startHost();
+
+    const calls = ["a", "b", "c"].map((id) => work(id));
+    await flush();
+
+    expect(slow.started).toEqual(["a", "b", "c"]);
+    expect(host.getRequestQueueStatus("slow")).toEqual({
+      serverId: "slow",
+      active: 3,
+      queued: 0,
+      maxConcurrentRequests: undefined,
+      oldestWaitMs: 0,
+    });
+    for (let i = 0; i < 3; i++) {
+      await slow.finishOne();
+    }
+    await Promise.all(calls);
+  });
+});
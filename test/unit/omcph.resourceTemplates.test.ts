@@ -0,0 +1,65 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { McpClientHost } from "../../src/index.js";
+
+describe("McpClientHost Resource Template Aggregation", () => {
+  let host: McpClientHost;
+
+  beforeEach(async () => {
+    const server = new Server(
+      { name: "templates-server", version: "1.0.0" },
+      { capabilities: { resources: { templates: true } as any } }
+    );
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: [
+        { uriTemplate: "users://{id}/profile", name: "profile" },
+        { uriTemplate: "teams://{id}/profile", name: "profile" },
+        { uriTemplate: "files:///{+path}", name: "file" },
+        // Listed twice by mistake; only the first is kept
+        { uriTemplate: "files:///{+path}", name: "duplicate" },
+      ],
+    }));
+    server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: [],
+    }));
+
+    host = new McpClientHost({
+      hostInfo: { name: "TestHost", version: "1.0.0" },
+      servers: [{ id: "templates", transport: "in-process", server }],
+    });
+    await host.start();
+  });
+
+  afterEach(async () => {
+    await host.stop();
+  });
+
+  test("keeps every template, keyed by its URI template", () => {
+    const templates = host.getResourceTemplates();
+
+    expect(templates.map((t) => [t.name, t.uriTemplate])).toEqual([
+      ["profile", "users://{id}/profile"],
+      ["profile", "teams://{id}/profile"],
+      ["file", "files:///{+path}"],
+    ]);
+    expect(templates.every((t) => t.serverId === "templates")).toBe(true);
+  });
+
+  test("suggests the server for URIs matching any of its templates", () => {
+    for (const uri of [
+      "users://42/profile",
+      "teams://7/profile",
+      "files:///docs/readme.md",
+    ]) {
+      expect(host.suggestServerForUri(uri)).toEqual([
+        expect.objectContaining({
+          serverId: "templates",
+          matchType: "template",
+        }),
+      ]);
+    }
+  });
+});
@@ -0,0 +1,102 @@
+import { jest } from "@jest/globals";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { RootsListChangedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { McpClientHost, McpHostError, ErrorCodes } from "../../src/index.js";
+
+describe("McpClientHost Per-Server Roots", () => {
+  let host: McpClientHost;
+  let alpha: McpServer;
+  let beta: McpServer;
+  let alphaNotified: jest.Mock;
+  let betaNotified: jest.Mock;
+
+  const globalRoots = [{ uri: "file:///projects/main", name: "Main" }];
+  const betaRoots = [{ uri: "file:///projects/beta", name: "Beta" }];
+
+  function createServer(name: string, onRootsChanged: jest.Mock) {
+    // Servers opt into notifications by advertising roots.listChanged
+    const server = new McpServer(
+      { name, version: "1.0.0" },
+      { capabilities: { roots: { listChanged: true } } as any }
+    );
+    server.server.setNotificationHandler(
+      RootsListChangedNotificationSchema,
+      async () => {
+        onRootsChanged();
+      }
+    );
+    return server;
+  }
+
+  beforeEach(async () => {
+    alphaNotified = jest.fn();
+    betaNotified = jest.fn();
+    alpha = createServer("alpha", alphaNotified);
+    beta = createServer("beta", betaNotified);
+    host = new McpClientHost({
+      hostInfo: { name: "TestHost", version: "1.0.0" },
+      hostCapabilities: { roots: { listChanged: true } },
+      servers: [
+        { id: "alpha", transport: "in-process", server: alpha },
+        {
+          id: "beta",
+          transport: "in-process",
+          server: beta,
+          roots: betaRoots,
+        },
+      ],
+    });
+    await host.start();
+    alphaNotified.mockClear();
+    betaNotified.mockClear();
+  });
+
+  afterEach(async () => {
+    await host.stop();
+  });
+
+  test("uses roots from the server configuration", async () => {
+    await host.setRoots(globalRoots);
+
+    expect((await alpha.server.listRoots()).roots).toEqual(globalRoots);
+    expect((await beta.server.listRoots()).roots).toEqual(betaRoots);
+    expect(host.getCurrentRoots()).toEqual(globalRoots);
+    expect(host.getCurrentRoots("alpha")).toEqual(globalRoots);
+    expect(host.getCurrentRoots("beta")).toEqual(betaRoots);
+  });
+
+  test("notifies only servers using the host-wide roots", async () => {
+    await host.setRoots(globalRoots);
+
+    expect(alphaNotified).toHaveBeenCalledTimes(1);
+    expect(betaNotified).not.toHaveBeenCalled();
+  });
+
+  test("scopes roots to the given servers", async () => {
+    const scoped = [{ uri: "file:///tmp/scratch", name: "Scratch" }];
+
+    await host.setRoots(scoped, { serverIds: ["alpha"] });
+
+    expect(alphaNotified).toHaveBeenCalledTimes(1);
+    expect(betaNotified).not.toHaveBeenCalled();
+    expect((await alpha.server.listRoots()).roots).toEqual(scoped);
+    expect(host.getCurrentRoots("alpha")).toEqual(scoped);
+    expect(host.getCurrentRoots()).toEqual([]);
+
+    // Scoped roots are not overwritten by later host-wide updates
+    await host.setRoots(globalRoots);
+    expect(host.getCurrentRoots("alpha")).toEqual(scoped);
+  });
+
+  test("rejects unknown server IDs without changing any roots", async () => {
+    const error = await host
+      .setRoots(globalRoots, { serverIds: ["alpha", "missing"] })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(McpHostError);
+    expect(error.code).toBe(ErrorCodes.SERVER_NOT_FOUND);
+    expect(error.serverId).toBe("missing");
+    expect(host.getCurrentRoots("alpha")).toEqual([]);
+    expect(alphaNotified).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,47 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpClientHost, McpHostConfig } from "../../src/index.js";
+
+describe("McpClientHost Roots Requests", () => {
+  let host: McpClientHost;
+  let server: McpServer;
+
+  function createHost(hostCapabilities: McpHostConfig["hostCapabilities"]) {
+    server = new McpServer({ name: "roots-server", version: "1.0.0" });
+    return new McpClientHost({
+      hostInfo: { name: "TestHost", version: "1.0.0" },
+      hostCapabilities,
+      servers: [{ id: "roots-server", transport: "in-process", server }],
+    });
+  }
+
+  afterEach(async () => {
+    await host.stop();
+  });
+
+  test("answers roots/list with the current roots", async () => {
+    host = createHost({ roots: { listChanged: true } });
+    await host.start();
+    const roots = [{ uri: "file:///projects/main", name: "Main" }];
+    await host.setRoots(roots);
+
+    const result = await server.server.listRoots();
+
+    expect(result.roots).toEqual(roots);
+  });
+
+  test("answers with an empty list before any roots are set", async () => {
+    host = createHost({ roots: {} });
+    await host.start();
+
+    const result = await server.server.listRoots();
+
+    expect(result.roots).toEqual([]);
+  });
+
+  test("does not handle roots/list when roots are not declared", async () => {
+    host = createHost({});
+    await host.start();
+
+    await expect(server.server.listRoots()).rejects.toThrow();
+  });
+});
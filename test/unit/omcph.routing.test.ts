@@ -0,0 +1,124 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpClientHost, McpHostConfig, ErrorCodes } from "../../src/index.js";
+
+/** Server exposing a shared `search` tool plus tools and content of its own */
+function createServer(name: string): McpServer {
+  const server = new McpServer({ name, version: "1.0.0" });
+  server.tool("search", async () => ({
+    content: [{ type: "text", text: `${name} search` }],
+  }));
+  server.tool(`${name}-only`, async () => ({
+    content: [{ type: "text", text: `${name} only` }],
+  }));
+  server.resource("readme", `file:///${name}/README.md`, async (uri) => ({
+    contents: [{ uri: uri.href, text: `${name} readme` }],
+  }));
+  server.prompt(`${name}-prompt`, async () => ({
+    messages: [
+      { role: "user", content: { type: "text", text: `${name} prompt` } },
+    ],
+  }));
+  return server;
+}
+
+describe("McpClientHost Auto-Routing", () => {
+  let host: McpClientHost;
+
+  async function startHost(routing?: McpHostConfig["routing"]) {
+    host = new McpClientHost({
+      hostInfo: { name: "TestHost", version: "1.0.0" },
+      routing,
+      servers: [
+        { id: "web", transport: "in-process", server: createServer("web") },
+        { id: "docs", transport: "in-process", server: createServer("docs") },
+      ],
+    });
+    await host.start();
+  }
+
+  afterEach(async () => {
+    await host.stop();
+  });
+
+  test("routes a tool call and reports the server", async () => {
+    await startHost();
+
+    const { serverId, result } = await host.call("docs-only", {});
+
+    expect(serverId).toBe("docs");
+    expect(result.content).toEqual([{ type: "text", text: "docs only" }]);
+  });
+
+  test("uses the first matching server by default", async () => {
+    await startHost();
+
+    const { serverId } = await host.call("search");
+
+    expect(serverId).toBe(host.suggestServerForTool("search")[0].serverId);
+  });
+
+  test("throws AMBIGUOUS_ROUTE with the error policy", async () => {
+    await startHost({ ambiguity: "error" });
+
+    await expect(host.call("search")).rejects.toMatchObject({
+      code: ErrorCodes.AMBIGUOUS_ROUTE,
+    });
+    // Unambiguous requests are unaffected
+    await expect(host.call("web-only")).resolves.toMatchObject({
+      serverId: "web",
+    });
+  });
+
+  test("prefers listed servers with the prefer-list policy", async () => {
+    await startHost({ ambiguity: "prefer-list", preferredServers: ["docs"] });
+
+    const { serverId, result } = await host.call("search");
+
+    expect(serverId).toBe("docs");
+    expect(result.content).toEqual([{ type: "text", text: "docs search" }]);
+  });
+
+  test("per-request options override the host defaults", async () => {
+    await startHost({ ambiguity: "error" });
+
+    const { serverId } = await host.call(
+      "search",
+      {},
+      { ambiguity: "prefer-list", preferredServers: ["missing", "docs"] }
+    );
+
+    expect(serverId).toBe("docs");
+  });
+
+  test("routes resource reads by URI", async () => {
+    await startHost();
+
+    const { serverId, result } = await host.read("file:///docs/README.md");
+
+    expect(serverId).toBe("docs");
+    expect(result.contents[0].text).toBe("docs readme");
+  });
+
+  test("routes prompts by name", async () => {
+    await startHost();
+
+    const { serverId, result } = await host.prompt("web-prompt");
+
+    expect(serverId).toBe("web");
+    expect(result.messages[0].content).toEqual({
+      type: "text",
+      text: "web prompt",
+    });
+  });
+
+  test("throws ROUTE_NOT_FOUND when no server matches", async () => {
+    await startHost();
+
+    await expect(host.call("unknown")).rejects.toMatchObject({
+      code: ErrorCodes.ROUTE_NOT_FOUND,
+    });
+    await expect(host.read("https://example.com")).rejects.toMatchObject({
+      code: ErrorCodes.ROUTE_NOT_FOUND,
+    });
+  });
+});
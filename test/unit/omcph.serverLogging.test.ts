@@ -0,0 +1,123 @@
+import { jest } from "@jest/globals";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  LoggingLevel,
+  SetLevelRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  McpClientHost,
+  McpHostError,
+  ErrorCodes,
+  ServerLogEntry,
+} from "../../src/index.js";
+
+describe("McpClientHost Server Logging", () => {
+  let host: McpClientHost;
+  let logging: McpServer;
+  let levels: LoggingLevel[];
+  let rejectLevels: boolean;
+
+  /** Server declaring the logging capability and recording requested levels */
+  function createLoggingServer() {
+    const server = new McpServer(
+      { name: "logging", version: "1.0.0" },
+      { capabilities: { logging: {} } }
+    );
+    server.server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+      if (rejectLevels) {
+        throw new Error("level rejected");
+      }
+      levels.push(request.params.level);
+      return {};
+    });
+    return server;
+  }
+
+  beforeEach(async () => {
+    levels = [];
+    rejectLevels = false;
+    logging = createLoggingServer();
+    host = new McpClientHost({
+      hostInfo: { name: "TestHost", version: "1.0.0" },
+      servers: [
+        {
+          id: "logging",
+          transport: "in-process",
+          server: logging,
+          logLevel: "warning",
+        },
+        {
+          id: "plain",
+          transport: "in-process",
+          server: new McpServer({ name: "plain", version: "1.0.0" }),
+        },
+      ],
+    });
+    await host.start();
+  });
+
+  afterEach(async () => {
+    await host.stop();
+  });
+
+  test("requests the configured log level on connect", () => {
+    expect(levels).toEqual(["warning"]);
+  });
+
+  test("sets the log level of a server and keeps it across reconnects", async () => {
+    await host.setServerLogLevel("logging", "debug");
+    expect(levels).toEqual(["warning", "debug"]);
+
+    await host.restartServer("logging");
+    expect(levels).toEqual(["warning", "debug", "debug"]);
+  });
+
+  test("sets the log level of all servers supporting logging", async () => {
+    await host.setServerLogLevel("all", "error");
+
+    expect(levels).toEqual(["warning", "error"]);
+  });
+
+  test("rejects servers without the logging capability", async () => {
+    const error = await host.setServerLogLevel("plain", "info").catch((e) => e);
+
+    expect(error).toBeInstanceOf(McpHostError);
+    expect(error.code).toBe(ErrorCodes.LOGGING_NOT_SUPPORTED);
+    await expect(
+      host.setServerLogLevel("missing", "info")
+    ).rejects.toMatchObject({ code: ErrorCodes.SERVER_NOT_FOUND });
+  });
+
+  test("reports rejected log levels", async () => {
+    rejectLevels = true;
+
+    await expect(
+      host.setServerLogLevel("logging", "info")
+    ).rejects.toMatchObject({
+      code: ErrorCodes.LOG_LEVEL_UPDATE_FAILED,
+      serverId: "logging",
+    });
+    const error = await host.setServerLogLevel("all", "info").catch((e) => e);
+    expect(error).toBeInstanceOf(AggregateError);
+    expect(error.errors).toHaveLength(1);
+  });
+
+  test("emits structured serverLog events", async () => {
+    const logSpy = jest.fn<(entry: ServerLogEntry) => void>();
+    host.on("serverLog", logSpy);
+
+    await logging.server.sendLoggingMessage({
+      level: "error",
+      logger: "db",
+      data: { query: "SELECT 1", durationMs: 12 },
+    });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(logSpy).toHaveBeenCalledWith({
+      serverId: "logging",
+      level: "error",
+      logger: "db",
+      data: { query: "SELECT 1", durationMs: 12 },
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { jest } from "@jest/globals";
+import { McpClientHost, McpHostConfig } from "../../src/index.js";
+import { McpHostError, ErrorCodes } from "../../src/errors.js";
+
+const createMockClient = () => ({
+  close: jest.fn(() => Promise.resolve()),
+  getServerCapabilities: jest.fn().mockReturnValue({ tools: {} }),
+  listTools: jest.fn(() =>
+    Promise.resolve({ tools: [{ name: "search", inputSchema: {} }] })
+  ),
+});
+
+describe("McpClientHost Runtime Server Management", () => {
+  const config: McpHostConfig = {
+    hostInfo: { name: "TestHost", version: "1.0.0" },
+    servers: [{ id: "existing-server", transport: "stdio", command: "test" }],
+  };
+
+  let host: McpClientHost;
+  let connectSpy: jest.SpiedFunction<any>;
+
+  beforeEach(() => {
+    host = new McpClientHost(config);
+    // Simulate a successful connection by registering a mock client
+    connectSpy = jest
+      .spyOn(host as any, "connectToServer")
+      .mockImplementation(async (serverConf: any) => {
+        const client = createMockClient();
+        (host as any).clients.set(serverConf.id, client);
+        await (host as any).updateServerCapabilities(serverConf.id, client);
+      });
+  });
+
+  afterEach(async () => {
+    await host.stop();
+  });
+
+  test("addServer connects the new server when the host is started", async () => {
+    await host.start();
+    connectSpy.mockClear();
+
+    await host.addServer({
+      id: "new-server",
+      transport: "stdio",
+      command: "x",
+    });
+
+    expect(connectSpy).toHaveBeenCalledTimes(1);
+    expect(host.getServerConfig("new-server")).toBeDefined();
+    expect(host.getTools().map((t) => t.serverId)).toContain("new-server");
+  });
+
+  test("addServer only registers the config before start", async () => {
+    await host.addServer({
+      id: "new-server",
+      transport: "stdio",
+      command: "x",
+    });
+
+    expect(connectSpy).not.toHaveBeenCalled();
+    expect(host.getServerConfig("new-server")).toBeDefined();
+  });
+
+  test("addServer rejects duplicate server IDs", async () => {
+    await expect(
+      host.addServer({
+        id: "existing-server",
+        transport: "stdio",
+        command: "x",
+      })
+    ).rejects.toMatchObject({
+      code: ErrorCodes.SERVER_ALREADY_EXISTS,
+      serverId: "existing-server",
+    });
+  });
+
+  test("removeServer disconnects the server and drops its capabilities", async () => {
+    await host.start();
+    const client = host.getClient("existing-server");
+    const disconnectedSpy = jest.fn();
+    host.on("serverDisconnected", disconnectedSpy);
+
+    await host.removeServer("existing-server");
+
+    expect(client.close).toHaveBeenCalled();
+    expect(disconnectedSpy).toHaveBeenCalledWith("existing-server", undefined);
+    expect(host.getServerConfig("existing-server")).toBeUndefined();
+    expect(host.getClient("existing-server")).toBeUndefined();
+    expect(host.getTools()).toHaveLength(0);
+  });
+
+  test("removeServer throws for unknown servers", async () => {
+    await expect(host.removeServer("missing")).rejects.toThrow(McpHostError);
+  });
+
+  test("restartServer reconnects the server", async () => {
+    await host.start();
+    const oldClient = host.getClient("existing-server");
+    connectSpy.mockClear();
+
+    await host.restartServer("existing-server");
+
+    expect(oldClient.close).toHaveBeenCalled();
+    expect(connectSpy).toHaveBeenCalledTimes(1);
+    expect(host.getClient("existing-server")).not.toBe(oldClient);
+    expect(host.getTools()).toHaveLength(1);
+  });
+
+  test("restartServer does not trigger the reconnect policy", async () => {
+    await host.stop();
+    host = new McpClientHost({
+      ...config,
+      servers: [
+        {
+          id: "existing-server",
+          transport: "stdio",
+          command: "test",
+          reconnect: { baseDelayMs: 0 },
+        },
+      ],
+    });
+    connectSpy = jest
+      .spyOn(host as any, "connectToServer")
+      .mockImplementation(async (serverConf: any) => {
+        (host as any).clients.set(serverConf.id, createMockClient());
+      });
+    const reconnectingSpy = jest.fn();
+    host.on("serverReconnecting", reconnectingSpy);
+
+    await host.start();
+    await host.restartServer("existing-server");
+
+    expect(reconnectingSpy).not.toHaveBeenCalled();
+  });
+});
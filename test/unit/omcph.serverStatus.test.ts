@@ -0,0 +1,173 @@
+import { jest } from "@jest/globals";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpClientHost, McpHostConfig } from "../../src/index.js";
+import { McpHostError, ErrorCodes } from "../../src/errors.js";
+
+const createMockClient = () => ({
+  close: jest.fn(() => Promise.resolve()),
+  getServerCapabilities: jest.fn().mockReturnValue({}),
+});
+
+describe("McpClientHost Server Status", () => {
+  const config: McpHostConfig = {
+    hostInfo: { name: "TestHost", version: "1.0.0" },
+    servers: [
+      { id: "good-server", transport: "stdio", command: "test" },
+      {
+        id: "bad-server",
+        transport: "invalid" as any,
+        command: "test",
+      } as any,
+    ],
+  };
+
+  let host: McpClientHost;
+
+  beforeEach(() => {
+    host = new McpClientHost(config);
+  });
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    await host.stop();
+  });
+
+  test("servers start out idle", () => {
+    expect(host.getServerStatus("good-server")).toMatchObject({
+      serverId: "good-server",
+      state: "idle",
+      attempts: 0,
+    });
+    expect(host.getAllServerStatuses()).toHaveLength(2);
+    expect(host.getServerStatus("unknown")).toBeUndefined();
+  });
+
+  test("tracks connecting, connected and failed states", async () => {
+    const changes: Array<[string, string, string]> = [];
+    host.on("serverStatusChanged", (serverId, status, previousState) =>
+      changes.push([serverId, previousState, status.state])
+    );
+    const realConnect = (host as any).connectToServer.bind(host);
+    jest
+      .spyOn(host as any, "connectToServer")
+      .mockImplementation(async (serverConf: any) => {
+        if (serverConf.id !== "good-server") {
+          return realConnect(serverConf);
+        }
+        (host as any).updateServerStatus("good-server", "connecting", {
+          attempts: 1,
+        });
+        (host as any).clients.set("good-server", createMockClient());
+        (host as any).updateServerStatus("good-server", "connected");
+      });
+
+    await host.start();
+
+    const good = host.getServerStatus("good-server");
+    expect(good?.state).toBe("connected");
+    expect(good?.connectedAt).toBeInstanceOf(Date);
+
+    const bad = host.getServerStatus("bad-server");
+    expect(bad?.state).toBe("failed");
+    expect(bad?.attempts).toBe(1);
+    expect(bad?.lastError).toBeInstanceOf(McpHostError);
+    expect((bad?.lastError as McpHostError).code).toBe(
+      ErrorCodes.INVALID_TRANSPORT
+    );
+    expect(bad?.lastErrorAt).toBeInstanceOf(Date);
+
+    expect(changes).toEqual(
+      expect.arrayContaining([
+        ["good-server", "idle", "connecting"],
+        ["good-server", "connecting", "connected"],
+        ["bad-server", "idle", "connecting"],
+        ["bad-server", "connecting", "failed"],
+      ])
+    );
+  });
+
+  test("an unexpected disconnect marks the server as failed", () => {
+    (host as any).isStarted = true;
+    (host as any).clients.set("good-server", createMockClient());
+    (host as any).updateServerStatus("good-server", "connected");
+
+    (host as any).handleServerDisconnection("good-server", new Error("gone"));
+
+    const status = host.getServerStatus("good-server");
+    expect(status?.state).toBe("failed");
+    expect(status?.lastError?.message).toBe("gone");
+  });
+
+  test("a connection closed by the server marks it as failed", async () => {
+    const server = new McpServer({ name: "closing", version: "1.0.0" });
+    host = new McpClientHost({
+      hostInfo: { name: "TestHost", version: "1.0.0" },
+      servers: [{ id: "closing", transport: "in-process", server }],
+    });
+    await host.start();
+    expect(host.getServerStatus("closing")?.state).toBe("connected");
+
+    await server.close();
+
+    const status = host.getServerStatus("closing");
+    expect(status?.state).toBe("failed");
+    expect(status?.lastError?.message).toContain("closed unexpectedly");
+    expect(host.getClient("closing")).toBeUndefined();
+  });
+
+  test("removing a server emits a final status and serverRemoved", async () => {
+    const events: string[] = [];
+    host.on("serverStatusChanged", (serverId, status) =>
+      events.push(`${serverId}:${status.state}`)
+    );
+    host.on("serverRemoved", (serverId) => events.push(`removed:${serverId}`));
+
+    await host.removeServer("bad-server");
+
+    expect(events).toEqual(["bad-server:stopped", "removed:bad-server"]);
+    expect(host.getServerStatus("bad-server")).toBeUndefined();
+  });
+
+  test("a server with a reconnect policy moves to reconnecting", () => {
+    jest.useFakeTimers();
+    host = new McpClientHost({
+      ...config,
+      servers: [
+        {
+          id: "good-server",
+          transport: "stdio",
+          command: "test",
+          reconnect: { baseDelayMs: 500 },
+        },
+      ],
+    });
+    (host as any).isStarted = true;
+    (host as any).clients.set("good-server", createMockClient());
+
+    (host as any).handleServerDisconnection("good-server");
+
+    expect(host.getServerStatus("good-server")).toMatchObject({
+      state: "reconnecting",
+      attempts: 1,
+    });
+  });
+
+  test("stop() moves every server to stopped", async () => {
+    jest
+      .spyOn(host as any, "connectToServer")
+      .mockImplementation(() => Promise.resolve());
+    await host.start();
+    await host.stop();
+
+    expect(host.getAllServerStatuses().map((s) => s.state)).toEqual([
+      "stopped",
+      "stopped",
+    ]);
+  });
+
+  test("returned statuses are copies", () => {
+    const status = host.getServerStatus("good-server")!;
+    status.state = "connected";
+    expect(host.getServerStatus("good-server")?.state).toBe("idle");
+  });
+});
@@ -98,7 +98,7 @@ describe("McpClientHost - Server Suggestion Methods", () => {
       mockResources.map((r) => [`${r.serverId}/${r.uri}`, r])
     );
     (host as any).aggregatedResourceTemplates = new Map(
-      mockTemplates.map((t) => [`${t.serverId}/${t.id}`, t])
+      mockTemplates.map((t) => [`${t.serverId}/${t.uriTemplate}`, t])
     );
     (host as any).aggregatedTools = new Map(
       mockTools.map((t) => [`${t.serverId}/${t.name}`, t])
@@ -123,16 +123,29 @@ describe("McpClientHost - Server Suggestion Methods", () => {
     });
 
     it("should find template matches when no exact match exists", () => {
-      const suggestions = host.suggestServerForUri(
-        "file:///some/other/path.txt"
-      );
+      const suggestions = host.suggestServerForUri("file:///notes.txt");
 
       expect(suggestions).toHaveLength(1);
       expect(suggestions[0]).toEqual({
         serverId: "fs-server",
         matchType: "template",
-        confidence: 0.8,
+        confidence: expect.any(Number),
       });
+      expect(suggestions[0].confidence).toBeGreaterThan(0.5);
+      expect(suggestions[0].confidence).toBeLessThan(1.0);
+    });
+
+    it("should return the variables bound by matching templates", () => {
+      const matches = host.matchResourceTemplate(
+        "http://api.example.com/users"
+      );
+
+      expect(matches).toEqual([
+        expect.objectContaining({
+          serverId: "web-server",
+          variables: { endpoint: "users" },
+        }),
+      ]);
     });
 
     it("should fall back to scheme matches when no exact or template match exists", () => {
@@ -0,0 +1,179 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  McpClientHost,
+  SchemaValidationError,
+  StructuredContentValidation,
+  ErrorCodes,
+  getStructuredContent,
+} from "../../src/index.js";
+
+interface Forecast {
+  city: string;
+  temperature: number;
+}
+
+/**
+ * Low-level server with a `forecast` tool declaring an output schema. The
+ * `mode` argument selects what the tool returns.
+ */
+function createWeatherServer() {
+  const server = new Server(
+    { name: "weather", version: "1.0.0" },
+    { capabilities: { tools: {} } }
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [
+      {
+        name: "forecast",
+        inputSchema: { type: "object" as const },
+        outputSchema: {
+          type: "object",
+          properties: {
+            city: { type: "string" },
+            temperature: { type: "number" },
+          },
+          required: ["city", "temperature"],
+        },
+      },
+      { name: "echo", inputSchema: { type: "object" as const } },
+    ],
+  }));
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const text = [{ type: "text", text: "forecast" }];
+    switch (request.params.arguments?.mode) {
+      case "invalid":
+        return {
+          content: text,
+          structuredContent: { city: "Paris", temperature: "warm" },
+        };
+      case "missing":
+        return { content: text };
+      case "error":
+        return { content: text, isError: true };
+      default:
+        return {
+          content: text,
+          structuredContent: { city: "Paris", temperature: 21 },
+        };
+    }
+  });
+
+  return server;
+}
+
+describe("McpClientHost Structured Tool Output", () => {
+  let host: McpClientHost;
+
+  async function startHost(structuredContent?: StructuredContentValidation) {
+    host = new McpClientHost({
+      hostInfo: { name: "TestHost", version: "1.0.0" },
+      validation: { structuredContent },
+      servers: [
+        {
+          id: "weather",
+          transport: "in-process",
+          server: createWeatherServer(),
+        },
+      ],
+    });
+    await host.start();
+  }
+
+  function forecast(mode?: string) {
+    return host.callTool<Forecast>("weather", {
+      name: "forecast",
+      arguments: { mode },
+    });
+  }
+
+  afterEach(async () => {
+    await host.stop();
+  });
+
+  test("exposes the output schema of aggregated tools", async () => {
+    await startHost();
+
+    const tool = host.getTools().find((t) => t.name === "forecast");
+    expect(tool?.outputSchema).toMatchObject({
+      required: ["city", "temperature"],
+    });
+  });
+
+  test("returns typed structured content that matches the schema", async () => {
+    await startHost();
+
+    const result = await forecast();
+
+    expect(result.structuredContentValidation).toEqual({
+      valid: true,
+      issues: [],
+    });
+    const content = getStructuredContent<Forecast>(result);
+    expect(content?.temperature).toBe(21);
+    expect(result.structuredContent?.city).toBe("Paris");
+  });
+
+  test("flags mismatches by default", async () => {
+    await startHost();
+
+    const result = await forecast("invalid");
+
+    expect(result.structuredContentValidation).toEqual({
+      valid: false,
+      issues: [
+        { path: "/temperature", keyword: "type", message: "must be number" },
+      ],
+    });
+    expect(() => getStructuredContent(result)).toThrow(SchemaValidationError);
+    expect(() => getStructuredContent(result)).toThrow(
+      expect.objectContaining({ code: ErrorCodes.INVALID_STRUCTURED_CONTENT })
+    );
+  });
+
+  test("flags missing structured content but not error results", async () => {
+    await startHost();
+
+    const missing = await forecast("missing");
+    const failed = await forecast("error");
+
+    expect(missing.structuredContentValidation?.issues).toEqual([
+      {
+        path: "",
+        keyword: "required",
+        message: "structuredContent is missing",
+      },
+    ]);
+    expect(failed.structuredContentValidation).toBeUndefined();
+  });
+
+  test("raises mismatches when configured", async () => {
+    await startHost("raise");
+
+    const error = await forecast("invalid").catch((e) => e);
+
+    expect(error).toBeInstanceOf(SchemaValidationError);
+    expect(error.code).toBe(ErrorCodes.INVALID_STRUCTURED_CONTENT);
+    expect(error.serverId).toBe("weather");
+    expect(error.issues).toHaveLength(1);
+    await expect(forecast()).resolves.toBeDefined();
+  });
+
+  test("skips validation when off or without an output schema", async () => {
+    await startHost("off");
+
+    const result = await forecast("invalid");
+    const echo = await host.call("echo", {});
+
+    expect(result.structuredContentValidation).toBeUndefined();
+    expect(getStructuredContent(result)).toEqual({
+      city: "Paris",
+      temperature: "warm",
+    });
+    expect(echo.result.structuredContentValidation).toBeUndefined();
+  });
+});
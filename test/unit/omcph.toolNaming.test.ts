@@ -0,0 +1,126 @@
+import { jest } from "@jest/globals";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  McpClientHost,
+  McpHostConfig,
+  McpHostError,
+  ErrorCodes,
+} from "../../src/index.js";
+
+/** Server exposing a `search` tool that reports which server handled it */
+function createSearchServer(name: string): McpServer {
+  const server = new McpServer({ name, version: "1.0.0" });
+  server.tool("search", async () => ({
+    content: [{ type: "text", text: `${name} results` }],
+  }));
+  return server;
+}
+
+describe("McpClientHost Tool Naming", () => {
+  let host: McpClientHost;
+
+  function createHost(toolNaming?: McpHostConfig["toolNaming"]) {
+    return new McpClientHost({
+      hostInfo: { name: "TestHost", version: "1.0.0" },
+      toolNaming,
+      servers: [
+        {
+          id: "web",
+          transport: "in-process",
+          server: createSearchServer("web"),
+        },
+        {
+          id: "docs",
+          transport: "in-process",
+          server: createSearchServer("docs"),
+        },
+      ],
+    });
+  }
+
+  function qualifiedNames(): string[] {
+    return host
+      .getTools()
+      .map((tool) => tool.qualifiedName)
+      .sort();
+  }
+
+  afterEach(async () => {
+    await host.stop();
+  });
+
+  test("prefixes tool names with the server ID by default", async () => {
+    host = createHost();
+    await host.start();
+
+    expect(qualifiedNames()).toEqual(["docs__search", "web__search"]);
+  });
+
+  test("supports suffixes with a custom separator", async () => {
+    host = createHost({ strategy: "suffix", separator: "-" });
+    await host.start();
+
+    expect(qualifiedNames()).toEqual(["search-docs", "search-web"]);
+  });
+
+  test("supports a custom naming function", async () => {
+    host = createHost({
+      strategy: (serverId, toolName) => `${serverId.toUpperCase()}_${toolName}`,
+    });
+    await host.start();
+
+    expect(qualifiedNames()).toEqual(["DOCS_search", "WEB_search"]);
+  });
+
+  test("rejects conflicting tools with error-on-conflict", async () => {
+    host = createHost({ strategy: "error-on-conflict" });
+    const errorSpy = jest.fn();
+    host.on("serverError", errorSpy);
+
+    await host.start();
+
+    expect(qualifiedNames()).toEqual(["search"]);
+    expect(errorSpy).toHaveBeenCalledTimes(1);
+    const [serverId, error] = errorSpy.mock.calls[0] as [string, McpHostError];
+    expect(error.code).toBe(ErrorCodes.TOOL_NAME_CONFLICT);
+    expect(error.serverId).toBe(serverId);
+  });
+
+  test("hands a conflicting name over when the winning server is removed", async () => {
+    host = createHost({ strategy: "error-on-conflict" });
+    const errorSpy = jest.fn();
+    host.on("serverError", errorSpy);
+    await host.start();
+    const [winner] = host.getTools().map((tool) => tool.serverId);
+    const loser = winner === "web" ? "docs" : "web";
+
+    await host.removeServer(winner);
+
+    expect(host.getTools()).toEqual([
+      expect.objectContaining({ qualifiedName: "search", serverId: loser }),
+    ]);
+    expect(host.suggestServerForTool("search")).toEqual([
+      expect.objectContaining({ serverId: loser }),
+    ]);
+    // The conflict is not reported again when the tools are rebuilt
+    expect(errorSpy).toHaveBeenCalledTimes(1);
+  });
+
+  test("routes callToolByQualifiedName to the right server", async () => {
+    host = createHost();
+    await host.start();
+
+    const result = await host.callToolByQualifiedName("docs__search", {});
+
+    expect(result.content).toEqual([{ type: "text", text: "docs results" }]);
+  });
+
+  test("throws TOOL_NOT_FOUND for unknown qualified names", async () => {
+    host = createHost();
+    await host.start();
+
+    await expect(host.callToolByQualifiedName("search")).rejects.toMatchObject({
+      code: ErrorCodes.TOOL_NOT_FOUND,
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  McpClientHost,
+  McpHostError,
+  SchemaValidationError,
+  ErrorCodes,
+} from "../../src/index.js";
+
+/**
+ * Low-level server with a `search` tool. It performs no validation of its
+ * own, so every call reaching it is recorded.
+ */
+function createSearchServer() {
+  const server = new Server(
+    { name: "search-server", version: "1.0.0" },
+    { capabilities: { tools: {} } }
+  );
+  const calls: unknown[] = [];
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [
+      {
+        name: "search",
+        inputSchema: {
+          type: "object" as const,
+          properties: {
+            query: { type: "string" },
+            limit: { type: "integer", minimum: 1 },
+          },
+          required: ["query"],
+        },
+      },
+    ],
+  }));
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    calls.push(request.params.arguments);
+    return { content: [{ type: "text", text: "results" }] };
+  });
+
+  return { server, calls };
+}
+
+describe("McpClientHost Tool Argument Validation", () => {
+  let host: McpClientHost;
+  let calls: unknown[];
+
+  async function startHost(toolArguments?: boolean) {
+    const search = createSearchServer();
+    calls = search.calls;
+    host = new McpClientHost({
+      hostInfo: { name: "TestHost", version: "1.0.0" },
+      validation: { toolArguments },
+      servers: [
+        { id: "search", transport: "in-process", server: search.server },
+      ],
+    });
+    await host.start();
+  }
+
+  afterEach(async () => {
+    await host.stop();
+  });
+
+  test("rejects invalid arguments before calling the server", async () => {
+    await startHost(true);
+
+    const error = await host
+      .callTool("search", { name: "search", arguments: { limit: 0 } })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(SchemaValidationError);
+    expect(error).toBeInstanceOf(McpHostError);
+    expect(error.code).toBe(ErrorCodes.INVALID_TOOL_ARGUMENTS);
+    expect(error.serverId).toBe("search");
+    expect(error.issues).toEqual([
+      { path: "/query", keyword: "required", message: "is required" },
+      { path: "/limit", keyword: "minimum", message: "must be >= 1" },
+    ]);
+    expect(error.message).toBe(
+      'Invalid arguments for tool "search": /query is required; /limit must be >= 1'
+    );
+    expect(calls).toEqual([]);
+  });
+
+  test("sends valid arguments, including routed calls", async () => {
+    await startHost(true);
+
+    await host.callTool("search", {
+      name: "search",
+      arguments: { query: "mcp", limit: 5 },
+    });
+    await host.callToolByQualifiedName("search__search", { query: "docs" });
+    await expect(host.call("search", { limit: "5" })).rejects.toMatchObject({
+      code: ErrorCodes.INVALID_TOOL_ARGUMENTS,
+    });
+
+    expect(calls).toEqual([{ query: "mcp", limit: 5 }, { query: "docs" }]);
+  });
+
+  test("does not validate unless enabled", async () => {
+    await startHost();
+
+    await host.callTool("search", { name: "search", arguments: {} });
+
+    expect(calls).toEqual([{}]);
+  });
+
+  test("validates arguments on demand", async () => {
+    await startHost();
+
+    expect(
+      host.validateToolArguments("search", "search", { query: 1 })
+    ).toEqual([{ path: "/query", keyword: "type", message: "must be string" }]);
+    expect(() => host.validateToolArguments("search", "missing", {})).toThrow(
+      expect.objectContaining({ code: ErrorCodes.TOOL_NOT_FOUND })
+    );
+  });
+});
@@ -0,0 +1,175 @@
+import {
+  CallToolResult,
+  GetPromptResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  convertToolResult,
+  convertPromptResult,
+} from "../../src/provider-messages.js";
+import { McpHostError, ErrorCodes } from "../../src/index.js";
+
+describe("Provider Message Conversion", () => {
+  const call = { id: "call_1", name: "weather__forecast" };
+  const result: CallToolResult = {
+    content: [
+      { type: "text", text: "Sunny, 21°C" },
+      { type: "image", data: "aW1n", mimeType: "image/png" },
+      { type: "audio", data: "YXVk", mimeType: "audio/wav" },
+    ],
+  };
+  const failed: CallToolResult = {
+    content: [{ type: "text", text: "City not found" }],
+    isError: true,
+  };
+  const prompt: GetPromptResult = {
+    messages: [
+      {
+        role: "user",
+        content: {
+          type: "resource",
+          resource: { uri: "file:///notes.md", text: "# Notes" },
+        },
+      },
+      {
+        role: "user",
+        content: { type: "image", data: "aW1n", mimeType: "image/png" },
+      },
+      { role: "assistant", content: { type: "text", text: "Summarizing." } },
+    ],
+  };
+
+  it("converts tool results to OpenAI tool messages", () => {
+    expect(convertToolResult(result, "openai", call)).toEqual({
+      role: "tool",
+      tool_call_id: "call_1",
+      content:
+        "Sunny, 21°C\n[image/png image omitted]\n[audio/wav audio omitted]",
+    });
+    expect(convertToolResult(failed, "openai", call).content).toBe(
+      "Error: City not found"
+    );
+  });
+
+  it("converts tool results to Anthropic tool_result blocks", () => {
+    expect(convertToolResult(result, "anthropic", call)).toEqual({
+      role: "user",
+      content: [
+        {
+          type: "tool_result",
+          tool_use_id: "call_1",
+          content: [
+            { type: "text", text: "Sunny, 21°C" },
+            {
+              type: "image",
+              source: { type: "base64", media_type: "image/png", data: "aW1n" },
+            },
+            { type: "text", text: "[audio/wav audio omitted]" },
+          ],
+        },
+      ],
+    });
+    expect(convertToolResult(failed, "anthropic", call).content[0]).toEqual(
+      expect.objectContaining({ is_error: true })
+    );
+  });
+
+  it("converts tool results to Gemini function responses", () => {
+    expect(convertToolResult(result, "gemini", call)).toEqual({
+      role: "user",
+      parts: [
+        {
+          functionResponse: {
+            name: "weather__forecast",
+            response: { output: "Sunny, 21°C" },
+          },
+        },
+        { inlineData: { mimeType: "image/png", data: "aW1n" } },
+        { inlineData: { mimeType: "audio/wav", data: "YXVk" } },
+      ],
+    });
+    expect(convertToolResult(failed, "gemini", call).parts[0]).toEqual({
+      functionResponse: {
+        name: "weather__forecast",
+        response: { error: "City not found" },
+      },
+    });
+  });
+
+  it("converts prompt messages for each provider", () => {
+    expect(convertPromptResult(prompt, "openai")).toEqual([
+      { role: "user", content: [{ type: "text", text: "# Notes" }] },
+      {
+        role: "user",
+        content: [
+          {
+            type: "image_url",
+            image_url: { url: "data:image/png;base64,aW1n" },
+          },
+        ],
+      },
+      { role: "assistant", content: "Summarizing." },
+    ]);
+    expect(convertPromptResult(prompt, "anthropic")[1]).toEqual({
+      role: "user",
+      content: [
+        {
+          type: "image",
+          source: { type: "base64", media_type: "image/png", data: "aW1n" },
+        },
+      ],
+    });
+    expect(
+      convertPromptResult(prompt, "gemini").map((message) => message.role)
+    ).toEqual(["user", "user", "model"]);
+  });
+
+  it("applies the configured fallback to unsupported content", () => {
+    const pdf: GetPromptResult = {
+      messages: [
+        { role: "user", content: { type: "text", text: "Read this" } },
+        {
+          role: "user",
+          content: {
+            type: "resource",
+            resource: {
+              uri: "file:///a.pdf",
+              mimeType: "application/pdf",
+              blob: "cGRm",
+            },
+          },
+        },
+      ],
+    };
+
+    expect(convertPromptResult(pdf, "anthropic")[1]).toEqual({
+      role: "user",
+      content: [
+        {
+          type: "text",
+          text: "[resource file:///a.pdf (application/pdf) omitted]",
+        },
+      ],
+    });
+    expect(
+      convertPromptResult(pdf, "anthropic", { unsupportedContent: "omit" })
+    ).toHaveLength(1);
+    expect(
+      convertToolResult(result, "openai", call, {
+        unsupportedContent: (content, provider) =>
+          `<${content.type} not sent to ${provider}>`,
+      }).content
+    ).toBe(
+      "Sunny, 21°C\n<image not sent to openai>\n<audio not sent to openai>"
+    );
+
+    const error = (() => {
+      try {
+        convertPromptResult(pdf, "gemini", { unsupportedContent: "error" });
+      } catch (e) {
+        return e;
+      }
+    })();
+    expect(error).toBeInstanceOf(McpHostError);
+    expect(error).toMatchObject({ code: ErrorCodes.UNSUPPORTED_CONTENT });
+  });
+});
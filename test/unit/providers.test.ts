@@ -0,0 +1,180 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { convertTools, toProviderToolName } from "../../src/providers.js";
+import { AggregatedTool, McpClientHost } from "../../src/index.js";
+
+describe("Provider Tool Export", () => {
+  const searchSchema = {
+    $schema: "https://json-schema.org/draft/2020-12/schema",
+    type: "object" as const,
+    properties: { query: { type: "string", format: "uri" } },
+    required: ["query"],
+    additionalProperties: false,
+  };
+  const tools: AggregatedTool[] = [
+    {
+      name: "search",
+      description: "Search the web",
+      inputSchema: searchSchema,
+      serverId: "web",
+      qualifiedName: "web__search",
+    },
+    {
+      name: "ping",
+      inputSchema: { type: "object" },
+      serverId: "1-status.io",
+      qualifiedName: "1-status.io__ping",
+    },
+  ];
+
+  it("converts tools to the OpenAI format", () => {
+    const {
+      provider,
+      tools: converted,
+      toolMap,
+    } = convertTools(tools, "openai");
+
+    expect(provider).toBe("openai");
+    expect(converted[0]).toEqual({
+      type: "function",
+      function: {
+        name: "web__search",
+        description: "Search the web",
+        parameters: searchSchema,
+      },
+    });
+    expect(converted[1].function.name).toBe("1-status_io__ping");
+    expect(toolMap["1-status_io__ping"]).toEqual({
+      serverId: "1-status.io",
+      toolName: "ping",
+      qualifiedName: "1-status.io__ping",
+    });
+  });
+
+  it("converts tools to the Anthropic format", () => {
+    const { tools: converted } = convertTools(tools, "anthropic");
+
+    expect(converted[0]).toEqual({
+      name: "web__search",
+      description: "Search the web",
+      input_schema: searchSchema,
+    });
+    // Schemas are copies, safe to adapt for the provider
+    expect(converted[0].input_schema).not.toBe(searchSchema);
+  });
+
+  it("converts tools to Gemini function declarations", () => {
+    const {
+      tools: converted,
+      toolMap,
+      schemaIssues,
+    } = convertTools(tools, "gemini");
+
+    // Schemas are always reduced to the OpenAPI subset Gemini accepts
+    expect(converted[0]).toEqual({
+      name: "web__search",
+      description: "Search the web",
+      parameters: {
+        type: "object",
+        properties: { query: { type: "string" } },
+        required: ["query"],
+      },
+    });
+    expect(schemaIssues).toEqual({
+      web__search: [
+        expect.objectContaining({
+          path: "/properties/query",
+          keyword: "format",
+        }),
+      ],
+    });
+    // Gemini names keep dots, must not start with a digit, and
+    // functions without parameters have no parameters schema
+    expect(converted[1]).toEqual({ name: "_1-status.io__ping" });
+    expect(Object.keys(toolMap)).toEqual(["web__search", "_1-status.io__ping"]);
+  });
+
+  it("keeps long and colliding names legal and distinct", () => {
+    const long = "a".repeat(80);
+    const shortened = toProviderToolName(long, "openai");
+    expect(shortened).toHaveLength(64);
+    expect(shortened).toMatch(/^a+_[0-9a-f]{8}$/);
+    expect(toProviderToolName(`${long}b`, "openai")).not.toBe(shortened);
+
+    const { toolMap } = convertTools(
+      [
+        { ...tools[0], serverId: "a.b", qualifiedName: "a.b__search" },
+        { ...tools[0], serverId: "a_b", qualifiedName: "a_b__search" },
+      ],
+      "anthropic"
+    );
+    expect(toolMap).toEqual({
+      a_b__search: expect.objectContaining({ serverId: "a.b" }),
+      a_b__search_2: expect.objectContaining({ serverId: "a_b" }),
+    });
+  });
+
+  it("rewrites schemas for strict modes and lists lossy conversions", () => {
+    const openai = convertTools(tools, "openai", { strict: true });
+    const gemini = convertTools(tools, "gemini", { strict: true });
+
+    expect(openai.tools[0].function).toEqual({
+      name: "web__search",
+      description: "Search the web",
+      parameters: {
+        type: "object",
+        properties: { query: { type: "string" } },
+        required: ["query"],
+        additionalProperties: false,
+      },
+      strict: true,
+    });
+    expect(openai.tools[1].function.parameters).toEqual({
+      type: "object",
+      properties: {},
+      required: [],
+      additionalProperties: false,
+    });
+    expect(openai.schemaIssues).toEqual({
+      web__search: [
+        expect.objectContaining({
+          path: "/properties/query",
+          keyword: "format",
+        }),
+      ],
+    });
+    expect(gemini.tools[0]).toEqual({
+      name: "web__search",
+      description: "Search the web",
+      parameters: {
+        type: "object",
+        properties: { query: { type: "string" } },
+        required: ["query"],
+      },
+    });
+    expect(convertTools(tools, "anthropic").schemaIssues).toEqual({});
+  });
+
+  it("exports the host's aggregated tools", async () => {
+    const server = new McpServer({ name: "notes", version: "1.0.0" });
+    server.tool("add-note", "Add a note", async () => ({
+      content: [{ type: "text", text: "added" }],
+    }));
+    const host = new McpClientHost({
+      hostInfo: { name: "TestHost", version: "1.0.0" },
+      servers: [{ id: "notes", transport: "in-process", server }],
+    });
+    await host.start();
+
+    const { tools: converted, toolMap } = host.getToolsAs("openai");
+
+    expect(converted).toHaveLength(1);
+    expect(converted[0].function.name).toBe("notes__add-note");
+    expect(converted[0].function.description).toBe("Add a note");
+    expect(toolMap["notes__add-note"]).toEqual({
+      serverId: "notes",
+      toolName: "add-note",
+      qualifiedName: "notes__add-note",
+    });
+    await host.stop();
+  });
+});
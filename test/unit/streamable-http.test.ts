@@ -0,0 +1,193 @@
+import { jest } from "@jest/globals";
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { McpClientHost, McpHostConfig } from "../../src/index.js";
+import {
+  StreamableHttpClientTransport,
+  StreamableHttpError,
+} from "../../src/streamable-http.js";
+
+const SESSION_ID = "session-123";
+
+/**
+ * Minimal in-process stand-in for a Streamable HTTP MCP server.
+ * Answers `initialize` with JSON and `tools/list` with an SSE stream.
+ */
+function createStandInServer() {
+  const received: Array<{
+    method: string;
+    headers: IncomingMessage["headers"];
+    body?: any;
+  }> = [];
+
+  const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      const body = raw ? JSON.parse(raw) : undefined;
+      received.push({ method: req.method ?? "", headers: req.headers, body });
+
+      if (req.method === "GET") {
+        res.writeHead(405).end();
+        return;
+      }
+      if (req.method === "DELETE") {
+        res.writeHead(200).end();
+        return;
+      }
+      if (body.method === "initialize") {
+        res.writeHead(200, {
+          "content-type": "application/json",
+          "mcp-session-id": SESSION_ID,
+        });
+        res.end(
+          JSON.stringify({
+            jsonrpc: "2.0",
+            id: body.id,
+            result: {
+              protocolVersion: body.params.protocolVersion,
+              capabilities: { tools: {} },
+              serverInfo: { name: "stand-in", version: "1.0.0" },
+            },
+          })
+        );
+        return;
+      }
+      if (body.method === "tools/list") {
+        res.writeHead(200, { "content-type": "text/event-stream" });
+        res.write(": keep-alive\n\n");
+        res.write(
+          `event: message\ndata: ${JSON.stringify({
+            jsonrpc: "2.0",
+            id: body.id,
+            result: {
+              tools: [{ name: "echo", inputSchema: { type: "object" } }],
+            },
+          })}\n\n`
+        );
+        res.end();
+        return;
+      }
+      if (body.method === "malformed") {
+        res.writeHead(200, { "content-type": "text/event-stream" });
+        res.write("event: message\ndata: {not json\n\n");
+        res.write(
+          `event: message\ndata: ${JSON.stringify({
+            jsonrpc: "2.0",
+            id: body.id,
+            result: {},
+          })}\n\n`
+        );
+        res.end();
+        return;
+      }
+      if (body.method === "fail") {
+        res.writeHead(500).end("boom");
+        return;
+      }
+      // Notifications are accepted without a body
+      res.writeHead(202).end();
+    });
+  });
+
+  return { server, received };
+}
+
+describe("StreamableHttpClientTransport", () => {
+  let server: Server;
+  let received: ReturnType<typeof createStandInServer>["received"];
+  let url: URL;
+
+  beforeEach(async () => {
+    ({ server, received } = createStandInServer());
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    const { port } = server.address() as AddressInfo;
+    url = new URL(`http://127.0.0.1:${port}/mcp`);
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test("initializes, tracks the session ID and reads SSE responses", async () => {
+    const transport = new StreamableHttpClientTransport(url, {
+      headers: { "x-api-key": "secret" },
+    });
+    const client = new Client({ name: "test", version: "1.0.0" });
+
+    await client.connect(transport);
+    expect(transport.sessionId).toBe(SESSION_ID);
+
+    const result = await client.listTools();
+    expect(result.tools.map((t) => t.name)).toEqual(["echo"]);
+
+    const listRequest = received.find((r) => r.body?.method === "tools/list");
+    expect(listRequest?.headers["mcp-session-id"]).toBe(SESSION_ID);
+    expect(listRequest?.headers["x-api-key"]).toBe("secret");
+    expect(listRequest?.headers.accept).toContain("text/event-stream");
+
+    await client.close();
+    expect(received.some((r) => r.method === "DELETE")).toBe(true);
+  });
+
+  test("rejects with the HTTP status on error responses", async () => {
+    const transport = new StreamableHttpClientTransport(url);
+    const onerror = jest.fn();
+    transport.onerror = onerror;
+    await transport.start();
+
+    const error = await transport
+      .send({ jsonrpc: "2.0", id: 1, method: "fail" })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(StreamableHttpError);
+    expect(error.status).toBe(500);
+    expect(onerror).toHaveBeenCalledWith(error);
+    await transport.close();
+  });
+
+  test("reports malformed SSE events and keeps reading the stream", async () => {
+    const transport = new StreamableHttpClientTransport(url);
+    const onerror = jest.fn();
+    const messages: unknown[] = [];
+    transport.onerror = onerror;
+    transport.onmessage = (message) => messages.push(message);
+    await transport.start();
+
+    await transport.send({ jsonrpc: "2.0", id: 2, method: "malformed" });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(onerror).toHaveBeenCalledWith(expect.any(SyntaxError));
+    expect(messages).toEqual([{ jsonrpc: "2.0", id: 2, result: {} }]);
+    await transport.close();
+  });
+
+  test("McpClientHost connects to streamable-http servers", async () => {
+    const config: McpHostConfig = {
+      hostInfo: { name: "TestHost", version: "1.0.0" },
+      servers: [
+        {
+          id: "http-server",
+          transport: "streamable-http",
+          url: url.href,
+          headers: { authorization: "Bearer token" },
+        },
+      ],
+    };
+    const host = new McpClientHost(config);
+
+    await host.start();
+
+    expect(host.getServerStatus("http-server")?.state).toBe("connected");
+    expect(host.getTools()).toEqual([
+      expect.objectContaining({ name: "echo", serverId: "http-server" }),
+    ]);
+    expect(received[0].headers.authorization).toBe("Bearer token");
+
+    await host.stop();
+  });
+});
@@ -1,5 +1,10 @@
 import { McpClientHostCore } from "../../src/core.js";
-import { resolveResourceServer } from "../../src/uri-utils.js";
+import {
+  expandResourceTemplate,
+  matchResourceTemplates,
+  matchUriTemplate,
+  resolveResourceServer,
+} from "../../src/uri-utils.js";
 import {
   AggregatedResource,
   AggregatedResourceTemplate,
@@ -98,7 +103,7 @@ describe("URI Resolution Utility", () => {
   });
 
   describe("Template Matching", () => {
-    it("should return template match with 80% confidence when no exact match exists", () => {
+    it("should return template match between scheme and exact confidence when no exact match exists", () => {
       const results = resolveResourceServer(
         "file:///dynamic/123.txt",
         mockResources,
@@ -109,8 +114,47 @@ describe("URI Resolution Utility", () => {
       expect(results[0]).toEqual({
         serverId: "dynamic-server",
         matchType: "template",
-        confidence: 0.8,
+        confidence: expect.any(Number),
       });
+      expect(results[0].confidence).toBeGreaterThan(0.5);
+      expect(results[0].confidence).toBeLessThan(1.0);
+    });
+
+    it("should rank more specific templates first", () => {
+      mockTemplates.push(
+        {
+          serverId: "generic-server",
+          uriTemplate: "file:///{+path}",
+          name: "any-file",
+        } as AggregatedResourceTemplate,
+        {
+          serverId: "reports-server",
+          uriTemplate: "file:///dynamic/reports/{id}.txt",
+          name: "report",
+        } as AggregatedResourceTemplate
+      );
+
+      const results = resolveResourceServer(
+        "file:///dynamic/reports/7.txt",
+        mockResources,
+        mockTemplates
+      );
+
+      expect(results.map((r) => r.serverId)).toEqual([
+        "reports-server",
+        "generic-server",
+      ]);
+      expect(results[0].confidence).toBeGreaterThan(results[1].confidence);
+    });
+
+    it("should not let simple variables span path segments", () => {
+      const results = resolveResourceServer(
+        "file:///dynamic/nested/123.txt",
+        mockResources,
+        mockTemplates
+      );
+
+      expect(results.every((r) => r.matchType !== "template")).toBe(true);
     });
 
     it("should prefer exact match over template match", () => {
@@ -254,4 +298,147 @@ describe("URI Resolution Utility", () => {
       });
     });
   });
+
+  describe("RFC 6570 Expansion", () => {
+    // Variables and examples from RFC 6570, section 3.2
+    const variables = {
+      count: ["one", "two", "three"],
+      dom: ["example", "com"],
+      dub: "me/too",
+      hello: "Hello World!",
+      half: "50%",
+      var: "value",
+      who: "fred",
+      base: "http://example.com/home/",
+      path: "/foo/bar",
+      list: ["red", "green", "blue"],
+      keys: { semi: ";", dot: ".", comma: "," },
+      v: "6",
+      x: "1024",
+      y: "768",
+      empty: "",
+      empty_keys: {},
+      undef: null,
+    };
+
+    it.each([
+      ["{var}", "value"],
+      ["{hello}", "Hello%20World%21"],
+      ["{half}", "50%25"],
+      ["{+hello}", "Hello%20World!"],
+      ["{+path}/here", "/foo/bar/here"],
+      ["{#var}", "#value"],
+      ["{x,hello,y}", "1024,Hello%20World%21,768"],
+      ["{+path,x}/here", "/foo/bar,1024/here"],
+      ["{#x,hello,y}", "#1024,Hello%20World!,768"],
+      ["X{.x,y}", "X.1024.768"],
+      ["{/var,x}/here", "/value/1024/here"],
+      ["{;x,y,empty}", ";x=1024;y=768;empty"],
+      ["{?x,y,empty}", "?x=1024&y=768&empty="],
+      ["?fixed=yes{&x}", "?fixed=yes&x=1024"],
+      ["{var:3}", "val"],
+      ["{list}", "red,green,blue"],
+      ["{list*}", "red,green,blue"],
+      ["{keys}", "semi,%3B,dot,.,comma,%2C"],
+      ["{keys*}", "semi=%3B,dot=.,comma=%2C"],
+      ["{+path:6}/here", "/foo/b/here"],
+      ["{+keys}", "semi,;,dot,.,comma,,"],
+      ["{#keys*}", "#semi=;,dot=.,comma=,"],
+      ["X{.list*}", "X.red.green.blue"],
+      ["{/list*,path:4}", "/red/green/blue/%2Ffoo"],
+      ["{/keys*}", "/semi=%3B/dot=./comma=%2C"],
+      ["{;hello:5}", ";hello=Hello"],
+      ["{;list*}", ";list=red;list=green;list=blue"],
+      ["{?list}", "?list=red,green,blue"],
+      ["{?list*}", "?list=red&list=green&list=blue"],
+      ["{?keys*}", "?semi=%3B&dot=.&comma=%2C"],
+      ["{&var:3}", "&var=val"],
+      ["{?undef,empty_keys}", ""],
+    ])("should expand %s", (template, expected) => {
+      expect(expandResourceTemplate(template, variables)).toBe(expected);
+    });
+  });
+
+  describe("RFC 6570 Matching", () => {
+    it("should bind simple variables", () => {
+      expect(
+        matchUriTemplate(
+          "repo://{owner}/{repo}/issues{?state,labels}",
+          "repo://acme/my%20app/issues?state=open&labels=bug,ui"
+        )
+      ).toEqual({
+        owner: "acme",
+        repo: "my app",
+        state: "open",
+        labels: ["bug", "ui"],
+      });
+    });
+
+    it("should bind reserved and path segment expansions", () => {
+      expect(
+        matchUriTemplate("file:///{+path}", "file:///docs/guide/intro.md")
+      ).toEqual({ path: "docs/guide/intro.md" });
+      expect(
+        matchUriTemplate("api://items{/segments*}", "api://items/a/b/c")
+      ).toEqual({ segments: ["a", "b", "c"] });
+      expect(matchUriTemplate("api://items{/id}", "api://items/a/b")).toBe(
+        undefined
+      );
+    });
+
+    it("should bind exploded query maps", () => {
+      expect(
+        matchUriTemplate(
+          "search://{index}{?filters*}",
+          "search://docs?lang=en&tag=mcp"
+        )
+      ).toEqual({ index: "docs", filters: { lang: "en", tag: "mcp" } });
+    });
+
+    it("should leave omitted optional expressions unbound", () => {
+      expect(
+        matchUriTemplate("file:///{name}{.ext}{?version}", "file:///report.txt")
+      ).toEqual({ name: "report", ext: "txt" });
+    });
+
+    it("should treat regex metacharacters in literals literally", () => {
+      expect(
+        matchUriTemplate("db://(main)/{table}", "db://(main)/users")
+      ).toEqual({ table: "users" });
+      expect(matchUriTemplate("db://(main)/{table}", "db://main/users")).toBe(
+        undefined
+      );
+    });
+
+    it("should round-trip expanded URIs", () => {
+      const template = "mail://{user}@{domain}/box{/folder*}{?unread,limit}";
+      const input = {
+        user: "ada",
+        domain: "example.com",
+        folder: ["inbox", "2024"],
+        unread: "true",
+        limit: "10",
+      };
+
+      const uri = expandResourceTemplate(template, input);
+
+      expect(matchUriTemplate(template, uri)).toEqual(input);
+    });
+
+    it("should list matching templates with their variables, most specific first", () => {
+      const matches = matchResourceTemplates("file:///dynamic/42.txt", [
+        ...mockTemplates,
+        {
+          serverId: "catch-all",
+          uriTemplate: "file:///{+path}",
+          name: "any-file",
+        } as AggregatedResourceTemplate,
+      ]);
+
+      expect(matches.map((m) => [m.serverId, m.variables])).toEqual([
+        ["dynamic-server", { id: "42" }],
+        ["catch-all", { path: "dynamic/42.txt" }],
+      ]);
+    });
+  });
 });